@@ -0,0 +1,131 @@
+// ANSI to HTML - render captured terminal output as a <pre> block
+// Only SGR sequences (colours and text attributes) are kept, as inline styles;
+// every other escape is dropped.
+
+import { ANSI_ESCAPE } from "./strip";
+
+// xterm's default palette for the 16 basic colours
+const BASIC_COLORS = [
+  "#000000", "#cd0000", "#00cd00", "#cdcd00", "#0000ee", "#cd00cd", "#00cdcd", "#e5e5e5",
+  "#7f7f7f", "#ff0000", "#00ff00", "#ffff00", "#5c5cff", "#ff00ff", "#00ffff", "#ffffff",
+];
+
+const DEFAULT_FOREGROUND = "#e5e5e5";
+const DEFAULT_BACKGROUND = "#000000";
+
+interface TextStyle {
+  fg?: string;
+  bg?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+  strike?: boolean;
+}
+
+function hex(n: number): string {
+  return n.toString(16).padStart(2, "0");
+}
+
+// One of the 256 indexed colours: the basic 16, a 6x6x6 cube, then greys
+function indexedColor(n: number): string | undefined {
+  if (n < 16) return BASIC_COLORS[n];
+  if (n < 232) {
+    const level = (v: number) => (v === 0 ? 0 : 55 + v * 40);
+    const i = n - 16;
+    return `#${hex(level(Math.floor(i / 36)))}${hex(level(Math.floor(i / 6) % 6))}${hex(level(i % 6))}`;
+  }
+  if (n < 256) {
+    const grey = 8 + (n - 232) * 10;
+    return `#${hex(grey)}${hex(grey)}${hex(grey)}`;
+  }
+  return undefined;
+}
+
+// Reads a 38/48 extended colour starting at params[i]; returns the colour
+// and how many parameters it used
+function extendedColor(params: number[], i: number): [string | undefined, number] {
+  if (params[i + 1] === 5) return [indexedColor(params[i + 2] ?? -1), 3];
+  if (params[i + 1] === 2) {
+    const [r = 0, g = 0, b = 0] = params.slice(i + 2, i + 5);
+    return [`#${hex(r & 255)}${hex(g & 255)}${hex(b & 255)}`, 5];
+  }
+  return [undefined, 1];
+}
+
+function applySgr(style: TextStyle, params: number[]): TextStyle {
+  let next = { ...style };
+  for (let i = 0; i < params.length; i++) {
+    const code = params[i]!;
+    if (code === 0) next = {};
+    else if (code === 1) next.bold = true;
+    else if (code === 2) next.dim = true;
+    else if (code === 3) next.italic = true;
+    else if (code === 4) next.underline = true;
+    else if (code === 7) next.inverse = true;
+    else if (code === 9) next.strike = true;
+    else if (code === 22) next.bold = next.dim = false;
+    else if (code === 23) next.italic = false;
+    else if (code === 24) next.underline = false;
+    else if (code === 27) next.inverse = false;
+    else if (code === 29) next.strike = false;
+    else if (code >= 30 && code <= 37) next.fg = BASIC_COLORS[code - 30];
+    else if (code >= 90 && code <= 97) next.fg = BASIC_COLORS[code - 90 + 8];
+    else if (code === 39) next.fg = undefined;
+    else if (code >= 40 && code <= 47) next.bg = BASIC_COLORS[code - 40];
+    else if (code >= 100 && code <= 107) next.bg = BASIC_COLORS[code - 100 + 8];
+    else if (code === 49) next.bg = undefined;
+    else if (code === 38 || code === 48) {
+      const [color, used] = extendedColor(params, i);
+      if (code === 38) next.fg = color;
+      else next.bg = color;
+      i += used - 1;
+    }
+  }
+  return next;
+}
+
+function styleAttribute(style: TextStyle): string {
+  const fg = style.inverse ? style.bg ?? DEFAULT_BACKGROUND : style.fg;
+  const bg = style.inverse ? style.fg ?? DEFAULT_FOREGROUND : style.bg;
+  const rules: string[] = [];
+  if (fg) rules.push(`color:${fg}`);
+  if (bg) rules.push(`background:${bg}`);
+  if (style.bold) rules.push("font-weight:bold");
+  if (style.dim) rules.push("opacity:0.6");
+  if (style.italic) rules.push("font-style:italic");
+  const lines = [style.underline && "underline", style.strike && "line-through"].filter(Boolean);
+  if (lines.length > 0) rules.push(`text-decoration:${lines.join(" ")}`);
+  return rules.join(";");
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function ansiToHtml(text: string): string {
+  let html = "";
+  let style: TextStyle = {};
+  let last = 0;
+
+  const emit = (chunk: string) => {
+    if (!chunk) return;
+    const css = styleAttribute(style);
+    html += css ? `<span style="${css}">${escapeHtml(chunk)}</span>` : escapeHtml(chunk);
+  };
+
+  for (const match of text.matchAll(ANSI_ESCAPE)) {
+    emit(text.slice(last, match.index));
+    last = match.index! + match[0].length;
+    const sgr = /^\x1b\[([\d;:]*)m$/.exec(match[0]);
+    if (sgr) {
+      // Empty parameters mean 0; some terminals separate with colons
+      const params = sgr[1]!.split(/[;:]/).map((p) => (p === "" ? 0 : Number(p)));
+      style = applySgr(style, params);
+    }
+  }
+  emit(text.slice(last));
+
+  return `<pre style="color:${DEFAULT_FOREGROUND};background:${DEFAULT_BACKGROUND};padding:1em">${html}</pre>\n`;
+}
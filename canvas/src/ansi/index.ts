@@ -0,0 +1,3 @@
+// ANSI module exports
+export * from "./strip";
+export * from "./html";
@@ -0,0 +1,9 @@
+// Escape Stripping - plain text from terminal output
+
+// CSI sequences (colours, cursor movement), OSC sequences (window titles,
+// links) ended by BEL or ST, and the remaining two-byte escapes
+export const ANSI_ESCAPE = /\x1b\[[0-?]*[ -\/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_ESCAPE, "");
+}
@@ -0,0 +1,212 @@
+// Canvas API tests against a fake canvas process
+// spawnCanvas is swapped for one that starts fixtures/fake-canvas.ts, which
+// dials back over a real socket the way a spawned canvas does.
+
+import { afterAll, afterEach, beforeAll, describe, expect, mock, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { Subprocess } from "bun";
+import type { SpawnOptions as TerminalSpawnOptions, SpawnResult } from "../terminal";
+import type { CanvasResult, SpawnOptions } from "./canvas-handle";
+import type { FakeCanvasScript } from "./fixtures/fake-canvas";
+
+const FAKE_CANVAS = join(import.meta.dir, "fixtures", "fake-canvas.ts");
+
+// What the next spawn should do, and every spawn made so far
+let script: FakeCanvasScript = {};
+const spawned: { kind: string; scenario?: string; config: unknown; proc: Subprocess }[] = [];
+
+const terminal = await import("../terminal");
+mock.module("../terminal", () => ({
+  ...terminal,
+  async spawnCanvas(kind: string, id: string, configJson?: string, options?: TerminalSpawnOptions): Promise<SpawnResult> {
+    const proc = Bun.spawn([process.execPath, FAKE_CANVAS, options!.socketPath!, kind, options?.scenario ?? "display"], {
+      env: { ...process.env, FAKE_CANVAS: JSON.stringify(script) },
+      stdio: ["ignore", "ignore", "inherit"],
+    });
+    spawned.push({ kind, scenario: options?.scenario, config: configJson && JSON.parse(configJson), proc });
+    return { method: "inline", pid: proc.pid, exited: proc.exited };
+  },
+}));
+
+const api = await import("./canvas-api");
+
+let runtimeDir: string;
+const savedRuntimeDir = process.env.XDG_RUNTIME_DIR;
+
+beforeAll(() => {
+  runtimeDir = mkdtempSync(join(tmpdir(), "canvas-api-test-"));
+  process.env.XDG_RUNTIME_DIR = runtimeDir;
+});
+
+afterEach(async () => {
+  script = {};
+  for (const { proc } of spawned.splice(0)) {
+    proc.kill();
+    await proc.exited;
+  }
+});
+
+afterAll(() => {
+  if (savedRuntimeDir === undefined) delete process.env.XDG_RUNTIME_DIR;
+  else process.env.XDG_RUNTIME_DIR = savedRuntimeDir;
+  rmSync(runtimeDir, { recursive: true, force: true });
+});
+
+const flight = {
+  id: "f1",
+  airline: "Canvas Air",
+  flightNumber: "CA1",
+  origin: { code: "SFO", name: "San Francisco", city: "San Francisco", timezone: "America/Los_Angeles" },
+  destination: { code: "JFK", name: "JFK", city: "New York", timezone: "America/New_York" },
+  departureTime: "2026-01-05T08:00:00Z",
+  arrivalTime: "2026-01-05T16:30:00Z",
+  duration: 330,
+  price: 29900,
+  currency: "USD",
+  cabinClass: "economy" as const,
+  stops: 0,
+};
+
+interface WrapperCase {
+  name: string;
+  run: (options: SpawnOptions) => Promise<CanvasResult<unknown>>;
+  kind: string;
+  scenario: string;
+  data: unknown;
+}
+
+// Each wrapper with a config its canvas accepts and a result it could send
+const WRAPPERS: WrapperCase[] = [
+  {
+    name: "pickMeetingTime",
+    run: (options: SpawnOptions) => api.pickMeetingTime({ calendars: [{ name: "Alice", color: "blue", events: [] }] }, options),
+    kind: "calendar",
+    scenario: "meeting-picker",
+    data: { startTime: "2026-01-05T10:00:00Z", endTime: "2026-01-05T10:30:00Z", duration: 30 },
+  },
+  {
+    name: "displayCalendar",
+    run: (options: SpawnOptions) => api.displayCalendar({ title: "Week" }, options),
+    kind: "calendar",
+    scenario: "display",
+    data: null,
+  },
+  {
+    name: "displayDocument",
+    run: (options: SpawnOptions) => api.displayDocument({ content: "# Notes" }, options),
+    kind: "document",
+    scenario: "display",
+    data: null,
+  },
+  {
+    name: "editDocument",
+    run: (options: SpawnOptions) => api.editDocument({ content: "# Notes" }, options),
+    kind: "document",
+    scenario: "edit",
+    data: { selectedText: "Notes", startOffset: 2, endOffset: 7, startLine: 1, endLine: 1 },
+  },
+  {
+    name: "previewEmail",
+    run: (options: SpawnOptions) =>
+      api.previewEmail({ content: "Hi", from: "a@example.com", to: ["b@example.com"], subject: "Hello" }, options),
+    kind: "document",
+    scenario: "email-preview",
+    data: null,
+  },
+  {
+    name: "bookFlight",
+    run: (options: SpawnOptions) => api.bookFlight({ flights: [flight] }, options),
+    kind: "flight",
+    scenario: "booking",
+    data: { selectedFlight: flight, selectedSeat: "12A" },
+  },
+  {
+    name: "monitorWandbRun",
+    run: (options: SpawnOptions) => api.monitorWandbRun({ runDir: "./wandb/latest-run" }, options),
+    kind: "wandb",
+    scenario: "monitor",
+    data: { action: "selected", selectedMetrics: ["loss"] },
+  },
+];
+
+describe("spawnCanvasWithIPC", () => {
+  test("spawns the canvas with its config and resolves with the selection", async () => {
+    script = { send: [{ type: "selected", data: { choice: 2 } }] };
+    const onReady = mock(() => {});
+    const result = await api.spawnCanvasWithIPC("document", "edit", { content: "x" }, { onReady });
+
+    expect(result).toEqual({ success: true, data: { choice: 2 } });
+    expect(onReady).toHaveBeenCalledTimes(1);
+    expect(spawned.map(({ kind, scenario, config }) => ({ kind, scenario, config }))).toEqual([
+      { kind: "document", scenario: "edit", config: { content: "x" } },
+    ]);
+  });
+
+  test("resolves as cancelled", async () => {
+    script = { send: [{ type: "cancelled", reason: "User quit" }] };
+    expect(await api.spawnCanvasWithIPC("document", "edit", { content: "x" })).toEqual({ success: true, cancelled: true });
+  });
+
+  test("fails with the canvas's error", async () => {
+    script = { send: [{ type: "error", message: "Leet is not installed" }] };
+    expect(await api.spawnCanvasWithIPC("wandb", "monitor", { runDir: "." })).toEqual({
+      success: false,
+      error: "Leet is not installed",
+    });
+  });
+
+  test("fails without spawning when the config is invalid", async () => {
+    const result = await api.spawnCanvasWithIPC("flight", "booking", { flights: [{ id: "f1" }] });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toStartWith("Invalid flight config for scenario 'booking':\n");
+    expect(result.error).toContain("flights[0].airline: is required");
+    expect(spawned).toEqual([]);
+  });
+
+  test("reports a canvas that never connects as lost", async () => {
+    script = { exitBeforeConnect: 1 };
+    const onCanvasLost = mock(() => {});
+    const result = await api.spawnCanvasWithIPC("document", "edit", { content: "x" }, { connectTimeout: 300, onCanvasLost });
+
+    expect(result).toEqual({ success: false, lost: true, error: "canvasLost: the canvas never connected" });
+    expect(onCanvasLost).toHaveBeenCalledTimes(1);
+  });
+
+  test(
+    "reports a canvas that stops sending heartbeats as lost",
+    async () => {
+      script = { silent: true };
+      const onReady = mock(() => {});
+      const onCanvasLost = mock(() => {});
+      const result = await api.spawnCanvasWithIPC("document", "edit", { content: "x" }, { onReady, onCanvasLost });
+
+      expect(result).toEqual({ success: false, lost: true, error: "canvasLost: the canvas stopped responding" });
+      expect(onReady).toHaveBeenCalledTimes(1);
+      expect(onCanvasLost).toHaveBeenCalledTimes(1);
+    },
+    15000
+  );
+
+  test("times out waiting for the user", async () => {
+    expect(await api.spawnCanvasWithIPC("document", "edit", { content: "x" }, { timeout: 300 })).toEqual({
+      success: false,
+      error: "Timeout waiting for user selection",
+    });
+  });
+});
+
+describe.each(WRAPPERS)("$name", ({ run, kind, scenario, data }) => {
+  test(`opens a ${kind} canvas in the ${scenario} scenario and resolves with the selection`, async () => {
+    script = { send: [{ type: "selected", data }] };
+    expect(await run({})).toEqual({ success: true, data });
+    expect(spawned.map((spawn) => [spawn.kind, spawn.scenario])).toEqual([[kind, scenario]]);
+  });
+
+  test("resolves as cancelled", async () => {
+    script = { send: [{ type: "cancelled" }] };
+    expect(await run({})).toEqual({ success: true, cancelled: true });
+  });
+});
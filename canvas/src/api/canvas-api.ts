@@ -1,31 +1,34 @@
 // High-Level Canvas API for Claude
 // Provides simple async interface for spawning interactive canvases
 
-import { createIPCServer } from "../ipc/server";
-import { getSocketPath } from "../ipc/types";
-import { spawnCanvas } from "../terminal";
-import type { CanvasMessage } from "../ipc/types";
+import { openCanvas, type CanvasResult, type SpawnOptions } from "./canvas-handle";
 import type {
+  BaseCalendarConfig,
   MeetingPickerConfig,
   MeetingPickerResult,
   DocumentConfig,
   DocumentSelection,
 } from "../scenarios/types";
+import type { EmailConfig } from "../canvases/document/types";
+import type { FlightConfig, FlightResult } from "../canvases/flight/types";
+import type { WandbConfig, WandbResult } from "../canvases/wandb/types";
 
-export interface CanvasResult<T = unknown> {
-  success: boolean;
-  data?: T;
-  cancelled?: boolean;
-  error?: string;
-}
-
-export interface SpawnOptions {
-  timeout?: number; // ms, default 5 minutes
-  onReady?: () => void;
-}
+export type {
+  BaseCalendarConfig,
+  MeetingPickerConfig,
+  MeetingPickerResult,
+  DocumentConfig,
+  DocumentSelection,
+  EmailConfig,
+  FlightConfig,
+  FlightResult,
+  WandbConfig,
+  WandbResult,
+};
 
 /**
  * Spawn an interactive canvas and wait for user selection
+ * Use openCanvas instead to keep control of the canvas while it is open
  */
 export async function spawnCanvasWithIPC<TConfig, TResult>(
   kind: string,
@@ -33,117 +36,8 @@ export async function spawnCanvasWithIPC<TConfig, TResult>(
   config: TConfig,
   options: SpawnOptions = {}
 ): Promise<CanvasResult<TResult>> {
-  const { timeout = 300000, onReady } = options;
-  const id = `${kind}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-  const socketPath = getSocketPath(id);
-
-  return new Promise((resolve) => {
-    let resolved = false;
-    let timeoutId: ReturnType<typeof setTimeout> | null = null;
-
-    const cleanup = () => {
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-        timeoutId = null;
-      }
-      server.close();
-    };
-
-    const server = createIPCServer({
-      socketPath,
-      onConnect() {
-        // Canvas connected, waiting for ready message
-      },
-      onMessage(msg: CanvasMessage) {
-        if (resolved) return;
-
-        switch (msg.type) {
-          case "ready":
-            onReady?.();
-            break;
-
-          case "selected":
-            resolved = true;
-            cleanup();
-            resolve({
-              success: true,
-              data: msg.data as TResult,
-            });
-            break;
-
-          case "cancelled":
-            resolved = true;
-            cleanup();
-            resolve({
-              success: true,
-              cancelled: true,
-            });
-            break;
-
-          case "error":
-            resolved = true;
-            cleanup();
-            resolve({
-              success: false,
-              error: msg.message,
-            });
-            break;
-
-          case "pong":
-            // Response to ping, ignore
-            break;
-        }
-      },
-      onDisconnect() {
-        if (!resolved) {
-          resolved = true;
-          cleanup();
-          resolve({
-            success: false,
-            error: "Canvas disconnected unexpectedly",
-          });
-        }
-      },
-      onError(error) {
-        if (!resolved) {
-          resolved = true;
-          cleanup();
-          resolve({
-            success: false,
-            error: error.message,
-          });
-        }
-      },
-    });
-
-    // Set timeout
-    timeoutId = setTimeout(() => {
-      if (!resolved) {
-        resolved = true;
-        server.send({ type: "close" });
-        cleanup();
-        resolve({
-          success: false,
-          error: "Timeout waiting for user selection",
-        });
-      }
-    }, timeout);
-
-    // Spawn the canvas
-    spawnCanvas(kind, id, JSON.stringify(config), {
-      socketPath,
-      scenario,
-    }).catch((err) => {
-      if (!resolved) {
-        resolved = true;
-        cleanup();
-        resolve({
-          success: false,
-          error: `Failed to spawn canvas: ${err.message}`,
-        });
-      }
-    });
-  });
+  const handle = await openCanvas<TConfig, TResult>(kind, scenario, config, options);
+  return handle.result;
 }
 
 /**
@@ -164,23 +58,13 @@ export async function pickMeetingTime(
 
 /**
  * Display a calendar (non-interactive)
- * Convenience wrapper for the display scenario
+ * Convenience wrapper for the display scenario; resolves once the user closes it
  */
 export async function displayCalendar(
-  config: {
-    title?: string;
-    events?: Array<{
-      id: string;
-      title: string;
-      startTime: string;
-      endTime: string;
-      color?: string;
-      allDay?: boolean;
-    }>;
-  },
+  config: BaseCalendarConfig,
   options?: SpawnOptions
 ): Promise<CanvasResult<void>> {
-  return spawnCanvasWithIPC("calendar", "display", config, options);
+  return spawnCanvasWithIPC<BaseCalendarConfig, void>("calendar", "display", config, options);
 }
 
 // ============================================
@@ -215,3 +99,43 @@ export async function editDocument(
   );
 }
 
+/**
+ * Preview an email draft (read-only)
+ * Shows the headers above the rendered body; resolves once the user closes it
+ */
+export async function previewEmail(
+  config: EmailConfig,
+  options?: SpawnOptions
+): Promise<CanvasResult<void>> {
+  return spawnCanvasWithIPC<EmailConfig, void>("document", "email-preview", config, options);
+}
+
+// ============================================
+// Flight Canvas API
+// ============================================
+
+/**
+ * Compare flights and pick one, with a seat when the flights carry seatmaps
+ * Resolves with the chosen flight once the user confirms it
+ */
+export async function bookFlight(
+  config: FlightConfig,
+  options?: SpawnOptions
+): Promise<CanvasResult<FlightResult>> {
+  return spawnCanvasWithIPC<FlightConfig, FlightResult>("flight", "booking", config, options);
+}
+
+// ============================================
+// W&B Canvas API
+// ============================================
+
+/**
+ * Monitor a W&B run with wandb leet in a pane beside the canvas
+ * Needs tmux, screen or zellij for the Leet pane; resolves once the user quits
+ */
+export async function monitorWandbRun(
+  config: WandbConfig,
+  options?: SpawnOptions
+): Promise<CanvasResult<WandbResult>> {
+  return spawnCanvasWithIPC<WandbConfig, WandbResult>("wandb", "monitor", config, options);
+}
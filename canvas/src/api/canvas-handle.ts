@@ -0,0 +1,388 @@
+// Canvas Handle - long-lived, two-way control of a spawned canvas
+// openCanvas spawns a canvas that connects back to us and returns a handle
+// for driving it while it is open: change its config, read its selection or
+// content, listen for what the user does, and close it. handle.result settles
+// the way spawnCanvasWithIPC's promise does.
+
+import { validateCanvasConfig } from "../canvases/validate-config";
+import { createIPCServer, type IPCPeer, type IPCServer } from "../ipc/server";
+import type { PatchFormat } from "../ipc/patch";
+import { DEFAULT_REQUEST_TIMEOUT_MS, type CanvasReply } from "../ipc/request";
+import {
+  createRequestId,
+  EVENT_TOPICS,
+  getSocketPath,
+  HEARTBEAT_TIMEOUT_MS,
+  type CanvasMessage,
+  type ControllerMessage,
+  type EventTopic,
+} from "../ipc/types";
+import { getCanvasInstance } from "../runtime/registry";
+import { formatIssues } from "../schema";
+import { spawnCanvas } from "../terminal";
+
+export interface CanvasResult<T = unknown> {
+  success: boolean;
+  data?: T;
+  cancelled?: boolean;
+  /** The canvas stopped sending heartbeats and didn't reconnect */
+  lost?: boolean;
+  error?: string;
+}
+
+export interface SpawnOptions {
+  timeout?: number; // ms, default 5 minutes; 0 waits as long as the canvas is open
+  /** How long the spawned canvas gets to connect, in ms (default 10s) */
+  connectTimeout?: number;
+  onReady?: () => void;
+  /** Called when the canvas goes silent or disconnects and doesn't come back */
+  onCanvasLost?: () => void;
+}
+
+// Everything a handle reports, in the order it happened
+export type CanvasEvent<TResult = unknown> =
+  | { type: "ready" } // Sent again after every reconnect
+  | { type: "selected"; data: TResult }
+  | { type: "cancelled"; reason?: string }
+  | { type: "error"; message: string }
+  | { type: "lost"; error: string }
+  | { type: "event"; topic: EventTopic; data: unknown }; // A UI event the handle subscribed to
+
+// on() takes a lifecycle event, or a UI topic to subscribe to
+export type CanvasEventName = Exclude<CanvasEvent["type"], "event"> | EventTopic;
+
+export interface CanvasHandle<TConfig = unknown, TResult = unknown> {
+  id: string;
+  /** Settles once the user selects or cancels, or the canvas errors, is lost, times out or is closed */
+  result: Promise<CanvasResult<TResult>>;
+  /** Replace the config; rejects if the canvas refuses it */
+  update: (config: TConfig) => Promise<void>;
+  /** Change part of the config (merge patch object or JSON Patch array) */
+  patch: (patch: unknown, format?: PatchFormat) => Promise<void>;
+  getSelection: () => Promise<{ selectedText: string; startOffset: number; endOffset: number } | null>;
+  getContent: () => Promise<{ content: string; cursorPosition: number }>;
+  /** Call listener for each such event; returns a function that stops it */
+  on: (name: CanvasEventName, listener: (event: CanvasEvent<TResult>) => void) => () => void;
+  /** Iterate over events as they happen, subscribing to topics first; ends with the result */
+  events: (topics?: EventTopic[]) => AsyncIterableIterator<CanvasEvent<TResult>>;
+  [Symbol.asyncIterator]: () => AsyncIterableIterator<CanvasEvent<TResult>>;
+  /** Ask the canvas to close; the result settles as cancelled */
+  close: () => Promise<void>;
+}
+
+interface Pending {
+  resolve: (reply: CanvasReply) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Spawn a canvas and return a handle for controlling it while it is open
+ */
+export async function openCanvas<TConfig, TResult>(
+  kind: string,
+  scenario: string,
+  config: TConfig,
+  options: SpawnOptions = {}
+): Promise<CanvasHandle<TConfig, TResult>> {
+  const { timeout = 300000, connectTimeout = 10000, onReady, onCanvasLost } = options;
+  const id = `${kind}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const socketPath = getSocketPath(id);
+
+  let resolveResult!: (result: CanvasResult<TResult>) => void;
+  const result = new Promise<CanvasResult<TResult>>((resolve) => {
+    resolveResult = resolve;
+  });
+
+  let resolved = false;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  let lostTimer: ReturnType<typeof setTimeout> | null = null;
+  let server: IPCServer<ControllerMessage> | null = null;
+  let ready = false;
+
+  // The canvas's current connection; a reconnect replaces it
+  let canvas: IPCPeer<ControllerMessage> | null = null;
+  let connected: (() => void)[] = [];
+  const pending = new Map<string, Pending>();
+  const listeners = new Set<(event: CanvasEvent<TResult>) => void>();
+  // Topics listened for, subscribed again on every connection
+  const topics = new Set<EventTopic>();
+
+  const emit = (event: CanvasEvent<TResult>) => {
+    for (const listener of [...listeners]) listener(event);
+  };
+
+  const settle = (requestId: string) => {
+    const entry = pending.get(requestId);
+    if (entry) {
+      clearTimeout(entry.timer);
+      pending.delete(requestId);
+    }
+    return entry;
+  };
+
+  const finish = (outcome: CanvasResult<TResult>) => {
+    if (resolved) return;
+    resolved = true;
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+      timeoutId = null;
+    }
+    if (lostTimer) {
+      clearTimeout(lostTimer);
+      lostTimer = null;
+    }
+    server?.close();
+    canvas = null;
+    const closed = new Error(`Canvas '${id}' is closed`);
+    for (const requestId of [...pending.keys()]) {
+      settle(requestId)?.reject(closed);
+    }
+    for (const wake of connected) wake();
+    connected = [];
+    resolveResult(outcome);
+  };
+
+  // A canvas that exited says so in the registry, which explains most losses
+  const canvasLost = (what: string) => {
+    if (resolved) return;
+    onCanvasLost?.();
+    const exitCode = getCanvasInstance(id)?.exitCode;
+    const error = `canvasLost: ${what}${exitCode === undefined ? "" : ` (it exited with status ${exitCode})`}`;
+    emit({ type: "lost", error });
+    finish({ success: false, lost: true, error });
+  };
+
+  // Send a request once the canvas is connected; resolves with its reply,
+  // error replies included
+  const request = async (
+    message: ControllerMessage,
+    timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS
+  ): Promise<CanvasReply> => {
+    while (!canvas && !resolved) {
+      await new Promise<void>((resolve) => connected.push(resolve));
+    }
+    const peer = canvas;
+    if (!peer) throw new Error(`Canvas '${id}' is closed`);
+    const requestId = createRequestId();
+    return new Promise<CanvasReply>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(requestId);
+        reject(new Error(`Timeout waiting for a reply to ${message.type}`));
+      }, timeoutMs);
+      pending.set(requestId, { resolve, reject, timer });
+      peer.send({ ...message, requestId });
+    });
+  };
+
+  const replyError = (reply: CanvasReply) => new Error(`${reply.message} (${reply.code ?? "error"})`);
+
+  // update and patch answer with updated/patched, or an error if refused
+  const changeConfig = async (message: ControllerMessage) => {
+    const reply = await request(message);
+    if (reply.type === "error") throw replyError(reply);
+  };
+
+  const subscribe = (names: EventTopic[]) => {
+    const added = names.filter((topic) => !topics.has(topic));
+    for (const topic of added) topics.add(topic);
+    if (added.length > 0 && canvas) {
+      request({ type: "subscribe", topics: added }).catch(() => {});
+    }
+  };
+
+  // A config the canvas would refuse fails here, before anything is spawned
+  const validation = validateCanvasConfig(kind, scenario, config);
+  if (!validation.ok) {
+    finish({
+      success: false,
+      error: `Invalid ${kind} config for scenario '${scenario}':\n${formatIssues(validation.issues)}`,
+    });
+  } else {
+    // We listen; the canvas is spawned in "connect" mode and dials us. It pings
+    // while connected and reconnects if the link drops, so a silent or missing
+    // canvas is only reported lost after the heartbeat timeout.
+    try {
+      server = await createIPCServer<CanvasMessage, ControllerMessage>({
+        socketPath,
+        heartbeatTimeoutMs: HEARTBEAT_TIMEOUT_MS,
+        onMessage(msg, peer) {
+          // Replies to our own requests, errors included, go to whoever asked
+          if ("requestId" in msg && msg.requestId && msg.type !== "ping") {
+            settle(msg.requestId)?.resolve(msg as CanvasReply);
+            return;
+          }
+          switch (msg.type) {
+            case "ping":
+              peer.send({ type: "pong", requestId: msg.requestId });
+              break;
+
+            case "ready":
+              emit({ type: "ready" });
+              if (!ready) {
+                ready = true;
+                onReady?.();
+              }
+              break;
+
+            case "event":
+              emit({ type: "event", topic: msg.topic, data: msg.data });
+              break;
+
+            case "selected":
+              emit({ type: "selected", data: msg.data as TResult });
+              finish({
+                success: true,
+                data: msg.data as TResult,
+              });
+              break;
+
+            case "cancelled":
+              emit({ type: "cancelled", reason: msg.reason });
+              finish({
+                success: true,
+                cancelled: true,
+              });
+              break;
+
+            case "error":
+              emit({ type: "error", message: msg.message });
+              finish({
+                success: false,
+                error: msg.message,
+              });
+              break;
+          }
+        },
+        onClientConnect(peer) {
+          if (lostTimer) {
+            clearTimeout(lostTimer);
+            lostTimer = null;
+          }
+          canvas = peer;
+          for (const wake of connected) wake();
+          connected = [];
+          if (topics.size > 0) {
+            request({ type: "subscribe", topics: [...topics] }).catch(() => {});
+          }
+        },
+        onClientTimeout() {
+          canvasLost("the canvas stopped responding");
+        },
+        onClientDisconnect(peer) {
+          if (canvas === peer) canvas = null;
+          if (resolved || server?.clientCount()) return;
+          lostTimer = setTimeout(() => canvasLost("the canvas disconnected"), HEARTBEAT_TIMEOUT_MS);
+        },
+        onError(error) {
+          finish({
+            success: false,
+            error: error.message,
+          });
+        },
+      });
+    } catch (err) {
+      finish({
+        success: false,
+        error: `Failed to listen on ${socketPath}: ${(err as Error).message}`,
+      });
+    }
+  }
+
+  const handle: CanvasHandle<TConfig, TResult> = {
+    id,
+    result,
+
+    update: (newConfig) => changeConfig({ type: "update", config: newConfig }),
+
+    patch: (changes, format) => changeConfig({ type: "patch", patch: changes, format }),
+
+    async getSelection() {
+      const reply = await request({ type: "getSelection" });
+      if (reply.type === "error") throw replyError(reply);
+      return (reply.data as Awaited<ReturnType<CanvasHandle["getSelection"]>>) ?? null;
+    },
+
+    async getContent() {
+      const reply = await request({ type: "getContent" });
+      if (reply.type === "error") throw replyError(reply);
+      return reply.data as Awaited<ReturnType<CanvasHandle["getContent"]>>;
+    },
+
+    on(name, listener) {
+      const isTopic = (EVENT_TOPICS as readonly string[]).includes(name);
+      if (isTopic) subscribe([name as EventTopic]);
+      const filtered = (event: CanvasEvent<TResult>) => {
+        if (isTopic ? event.type === "event" && event.topic === name : event.type === name) {
+          listener(event);
+        }
+      };
+      listeners.add(filtered);
+      return () => listeners.delete(filtered);
+    },
+
+    async *events(eventTopics = []) {
+      const queue: CanvasEvent<TResult>[] = [];
+      let wake: (() => void) | null = null;
+      const listener = (event: CanvasEvent<TResult>) => {
+        queue.push(event);
+        wake?.();
+      };
+      listeners.add(listener);
+      subscribe(eventTopics);
+      try {
+        for (;;) {
+          while (queue.length > 0) yield queue.shift()!;
+          if (resolved) return;
+          await Promise.race([new Promise<void>((resolve) => (wake = resolve)), result]);
+          wake = null;
+        }
+      } finally {
+        listeners.delete(listener);
+      }
+    },
+
+    [Symbol.asyncIterator]() {
+      return handle.events();
+    },
+
+    async close() {
+      if (resolved) return;
+      canvas?.send({ type: "close" });
+      finish({ success: true, cancelled: true });
+    },
+  };
+
+  if (resolved) return handle;
+
+  if (timeout > 0) {
+    timeoutId = setTimeout(() => {
+      server?.broadcast({ type: "close" });
+      finish({
+        success: false,
+        error: "Timeout waiting for user selection",
+      });
+    }, timeout);
+  }
+
+  try {
+    await spawnCanvas(kind, id, JSON.stringify(config), {
+      socketPath,
+      ipcMode: "connect",
+      scenario,
+    });
+  } catch (err) {
+    finish({
+      success: false,
+      error: `Failed to spawn canvas: ${(err as Error).message}`,
+    });
+    return handle;
+  }
+
+  // A canvas that fails before connecting (a bad config, say) never dials in
+  if (!resolved && !server?.clientCount()) {
+    lostTimer = setTimeout(() => canvasLost("the canvas never connected"), connectTimeout);
+  }
+
+  return handle;
+}
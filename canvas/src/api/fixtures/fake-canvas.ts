@@ -0,0 +1,56 @@
+// Fake Canvas - a stand-in canvas process for the API tests
+// Dials the controller in "connect" mode like a real canvas, introduces
+// itself, then sends the messages its script lists. Exits once the controller
+// drops the connection. Usage: bun fake-canvas.ts <socket> <kind> <scenario>,
+// with the script as JSON in $FAKE_CANVAS.
+
+import { openConnection } from "../../ipc/connection";
+import { PROTOCOL_VERSION, type CanvasMessage } from "../../ipc/types";
+
+export interface FakeCanvasScript {
+  /** Sent after the welcome and ready, in order */
+  send?: CanvasMessage[];
+  /** Exit with this status without connecting, like a canvas that failed to start */
+  exitBeforeConnect?: number;
+  /** Connect but never send heartbeats, like a hung canvas */
+  silent?: boolean;
+}
+
+const [socketPath, kind, scenario] = process.argv.slice(2);
+const script: FakeCanvasScript = JSON.parse(process.env.FAKE_CANVAS ?? "{}");
+
+if (!socketPath || !kind || !scenario) {
+  console.error("Usage: fake-canvas.ts <socket> <kind> <scenario>");
+  process.exit(2);
+}
+
+if (script.exitBeforeConnect !== undefined) {
+  process.exit(script.exitBeforeConnect);
+}
+
+const connection = await openConnection({
+  mode: "connect",
+  socketPath,
+  heartbeat: script.silent ? false : undefined,
+  onMessage: (msg) => {
+    if (msg.type === "close") process.exit(0);
+  },
+  onPeerConnect: (peer) => {
+    peer.send({
+      type: "welcome",
+      protocolVersion: PROTOCOL_VERSION,
+      kind,
+      id: "fake",
+      scenario,
+      mode: "connect",
+      capabilities: [],
+      topics: [],
+    });
+    peer.send({ type: "ready", scenario });
+    for (const message of script.send ?? []) peer.send(message);
+  },
+  onPeerDisconnect: () => {
+    connection.close();
+    process.exit(0);
+  },
+});
@@ -1,2 +1,3 @@
 // API module exports
+export * from "./canvas-handle";
 export * from "./canvas-api";
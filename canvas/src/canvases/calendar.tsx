@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from "react";
 import { Box, Text, useInput, useApp, useStdout } from "ink";
 import { MeetingPickerView } from "./calendar/scenarios/meeting-picker-view";
+import { useIPC } from "./hooks/use-ipc";
+import { ConnectionStatus } from "./components/connection-status";
 import type { MeetingPickerConfig } from "../scenarios/types";
+import type { IPCMode } from "../ipc/types";
 
 export interface CalendarEvent {
   id: string;
@@ -43,6 +46,9 @@ interface Props {
   id: string;
   config?: CalendarConfig;
   socketPath?: string;
+  ipcMode?: IPCMode;
+  /** Shared secret controllers must present when this canvas listens */
+  ipcToken?: string;
   scenario?: string;
 }
 
@@ -345,7 +351,7 @@ function AllDayEventsRow({ weekDays, events, columnWidth, timeColumnWidth }: All
   );
 }
 
-export function Calendar({ id, config, socketPath, scenario = "display" }: Props) {
+export function Calendar({ id, config, socketPath, ipcMode, ipcToken, scenario = "display" }: Props) {
   // Route to meeting picker if that scenario is requested
   if (scenario === "meeting-picker" && config?.calendars) {
     const pickerConfig: MeetingPickerConfig = {
@@ -357,7 +363,7 @@ export function Calendar({ id, config, socketPath, scenario = "display" }: Props
       startHour: 6,
       endHour: 22,
     };
-    return <MeetingPickerView id={id} config={pickerConfig} socketPath={socketPath} />;
+    return <MeetingPickerView id={id} config={pickerConfig} socketPath={socketPath} ipcMode={ipcMode} ipcToken={ipcToken} />;
   }
 
   // Default display scenario
@@ -370,6 +376,24 @@ export function Calendar({ id, config, socketPath, scenario = "display" }: Props
     height: stdout?.rows || 40,
   });
 
+  // Live config state (can be updated via IPC)
+  const [liveConfig, setLiveConfig] = useState<CalendarConfig | undefined>(config);
+
+  const ipc = useIPC({
+    socketPath,
+    mode: ipcMode,
+    token: ipcToken,
+    kind: "calendar",
+    id,
+    scenario,
+    topics: ["scroll"],
+    config: liveConfig,
+    onClose: () => exit(),
+    onUpdate: (newConfig) => {
+      setLiveConfig(newConfig as CalendarConfig);
+    },
+  });
+
   // Update current time every minute
   useEffect(() => {
     const timer = setInterval(() => {
@@ -413,8 +437,8 @@ export function Calendar({ id, config, socketPath, scenario = "display" }: Props
     baseSlotHeight + (i < extraRows ? 1 : 0)
   );
 
-  const events: CalendarEvent[] = config?.events
-    ? config.events.map((e) => ({
+  const events: CalendarEvent[] = liveConfig?.events
+    ? liveConfig.events.map((e) => ({
         ...e,
         startTime: new Date(e.startTime),
         endTime: new Date(e.endTime),
@@ -422,6 +446,12 @@ export function Calendar({ id, config, socketPath, scenario = "display" }: Props
     : getDemoEvents();
 
   const weekDays = getWeekDays(currentDate);
+
+  // Push week navigation to subscribed controllers
+  const weekStart = weekDays[0]?.toDateString();
+  useEffect(() => {
+    ipc.publish("scroll", { weekStart: weekDays[0]?.toISOString() });
+  }, [weekStart]);
   const today = new Date();
 
   useInput((input, key) => {
@@ -535,6 +565,8 @@ export function Calendar({ id, config, socketPath, scenario = "display" }: Props
       {/* Title bar */}
       <Box marginBottom={1}>
         <Text bold color="white">{formatMonthYear(weekDays[0])}</Text>
+        <Box flexGrow={1} />
+        <ConnectionStatus status={ipc.status} />
       </Box>
 
       {/* Day headers row */}
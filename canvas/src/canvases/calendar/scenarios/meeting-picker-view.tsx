@@ -2,8 +2,10 @@
 
 import React, { useState, useEffect, useCallback } from "react";
 import { Box, Text, useInput, useApp, useStdout } from "ink";
-import { useMouse, type MouseEvent } from "../hooks/use-mouse";
-import { useIPC } from "../hooks/use-ipc";
+import { useMouse, type MouseEvent } from "../../hooks/use-mouse";
+import { useIPC } from "../../hooks/use-ipc";
+import { ConnectionStatus } from "../../components/connection-status";
+import type { IPCMode } from "../../../ipc/types";
 import type { MeetingPickerConfig, MeetingPickerResult, NamedCalendar } from "../../../scenarios/types";
 import {
   getWeekDays,
@@ -20,6 +22,9 @@ interface Props {
   id: string;
   config: MeetingPickerConfig;
   socketPath?: string;
+  ipcMode?: IPCMode;
+  /** Shared secret controllers must present when this canvas listens */
+  ipcToken?: string;
 }
 
 interface SlotInfo {
@@ -30,7 +35,7 @@ interface SlotInfo {
   endTime: Date;
 }
 
-export function MeetingPickerView({ id, config, socketPath }: Props) {
+export function MeetingPickerView({ id, config: initialConfig, socketPath, ipcMode, ipcToken }: Props) {
   const { exit } = useApp();
   const { stdout } = useStdout();
   const [currentDate, setCurrentDate] = useState(new Date());
@@ -50,6 +55,9 @@ export function MeetingPickerView({ id, config, socketPath }: Props) {
   // Simple ASCII spinner (single-width chars only)
   const spinnerChars = ["|", "/", "-", "\\"];
 
+  // Live config state (can be updated via IPC)
+  const [config, setConfig] = useState<MeetingPickerConfig>(initialConfig);
+
   const {
     calendars = [],
     slotGranularity = 30,
@@ -59,8 +67,17 @@ export function MeetingPickerView({ id, config, socketPath }: Props) {
 
   const ipc = useIPC({
     socketPath,
+    mode: ipcMode,
+    token: ipcToken,
+    kind: "calendar",
+    id,
     scenario: "meeting-picker",
+    topics: ["hover", "cursor", "scroll"],
+    config,
     onClose: () => exit(),
+    onUpdate: (newConfig) => {
+      setConfig(newConfig as MeetingPickerConfig);
+    },
   });
 
   // Countdown timer effect
@@ -308,6 +325,27 @@ export function MeetingPickerView({ id, config, socketPath }: Props) {
     return { dayIndex: cursorDay, slotIndex: cursorSlot, day, startTime, endTime };
   }, [cursorDay, cursorSlot, weekDays, totalSlots, slotGranularity, startHour]);
 
+  // Push hover, cursor and week changes to subscribed controllers
+  const describeSlot = (slot: SlotInfo | null) =>
+    slot && {
+      startTime: slot.startTime.toISOString(),
+      endTime: slot.endTime.toISOString(),
+      free: isSlotFree(slot.dayIndex, slot.slotIndex),
+    };
+  const weekStart = weekDays[0]?.toDateString();
+
+  useEffect(() => {
+    ipc.publish("hover", describeSlot(hoveredSlot));
+  }, [hoveredSlot?.dayIndex, hoveredSlot?.slotIndex, weekStart]);
+
+  useEffect(() => {
+    ipc.publish("cursor", describeSlot(getCursorSlotInfo()));
+  }, [cursorDay, cursorSlot, weekStart]);
+
+  useEffect(() => {
+    ipc.publish("scroll", { weekStart: weekDays[0]?.toISOString() });
+  }, [weekStart]);
+
   // Keyboard controls
   useInput((input, key) => {
     if (input === "q" || key.escape) {
@@ -536,6 +574,8 @@ export function MeetingPickerView({ id, config, socketPath }: Props) {
         <Text bold color="white">
           {formatMonthYear(weekDays[0])} - Select a meeting time
         </Text>
+        <Box flexGrow={1} />
+        <ConnectionStatus status={ipc.status} />
       </Box>
 
       {/* Legend */}
@@ -0,0 +1,29 @@
+// Connection Status Component - Small indicator for the controller link
+// Shared by every canvas; renders nothing when the canvas has no socket
+
+import React from "react";
+import { Text } from "ink";
+import type { ConnectionStatus as Status } from "../../ipc/types";
+
+interface Props {
+  status: Status;
+}
+
+const LABELS: Record<Status, { symbol: string; text: string; color: string }> = {
+  offline: { symbol: "", text: "", color: "gray" },
+  listening: { symbol: "○", text: "waiting for Claude", color: "gray" },
+  connecting: { symbol: "◌", text: "connecting", color: "yellow" },
+  connected: { symbol: "●", text: "connected", color: "green" },
+  reconnecting: { symbol: "◌", text: "reconnecting", color: "yellow" },
+  disconnected: { symbol: "○", text: "disconnected", color: "red" },
+};
+
+export function ConnectionStatus({ status }: Props) {
+  if (status === "offline") return null;
+  const { symbol, text, color } = LABELS[status];
+  return (
+    <Text color={color}>
+      {symbol} {text}
+    </Text>
+  );
+}
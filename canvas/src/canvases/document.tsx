@@ -2,20 +2,25 @@
 
 import React, { useState, useEffect, useCallback, useRef } from "react";
 import { Box, Text, useInput, useApp, useStdout } from "ink";
-import { useIPCServer } from "./calendar/hooks/use-ipc-server";
-import { useMouse } from "./calendar/hooks/use-mouse";
+import { useIPC } from "./hooks/use-ipc";
+import { useMouse } from "./hooks/use-mouse";
 import { RawMarkdownRenderer } from "./document/components/raw-markdown-renderer";
 import { EmailHeader } from "./document/components/email-header";
+import { ConnectionStatus } from "./components/connection-status";
 import type { DocumentConfig, EmailConfig } from "./document/types";
+import type { IPCMode } from "../ipc/types";
 
 interface Props {
   id: string;
   config?: DocumentConfig;
   socketPath?: string;
+  ipcMode?: IPCMode;
+  /** Shared secret controllers must present when this canvas listens */
+  ipcToken?: string;
   scenario?: string;
 }
 
-export function Document({ id, config: initialConfig, socketPath, scenario = "display" }: Props) {
+export function Document({ id, config: initialConfig, socketPath, ipcMode, ipcToken, scenario = "display" }: Props) {
   const { exit } = useApp();
   const { stdout } = useStdout();
 
@@ -41,10 +46,16 @@ export function Document({ id, config: initialConfig, socketPath, scenario = "di
   // Live config state (can be updated via IPC)
   const [liveConfig, setLiveConfig] = useState<DocumentConfig | undefined>(initialConfig);
 
-  // IPC for communicating with Claude (server mode for CLI)
-  const ipc = useIPCServer({
+  // IPC for communicating with Claude
+  const ipc = useIPC({
     socketPath,
+    mode: ipcMode,
+    token: ipcToken,
+    kind: "document",
+    id,
     scenario: scenario || "display",
+    topics: ["selection", "cursor", "scroll", "contentChanged"],
+    config: liveConfig,
     onClose: () => exit(),
     onUpdate: (newConfig) => {
       setLiveConfig(newConfig as DocumentConfig);
@@ -91,6 +102,8 @@ export function Document({ id, config: initialConfig, socketPath, scenario = "di
   useEffect(() => {
     if (liveConfig?.content) {
       setContent(liveConfig.content);
+      // Keep the cursor where it was unless the new content is shorter
+      setCursorPosition((pos) => Math.min(pos, liveConfig.content.length));
     }
   }, [liveConfig?.content]);
 
@@ -199,6 +212,35 @@ export function Document({ id, config: initialConfig, socketPath, scenario = "di
     return { start, end };
   }, [selectionStart, selectionEnd]);
 
+  // Push UI changes to subscribed controllers
+  const selectionBounds = getSelectionBounds();
+  useEffect(() => {
+    ipc.publish(
+      "selection",
+      selectionBounds
+        ? {
+            selectedText: content.slice(selectionBounds.start, selectionBounds.end),
+            startOffset: selectionBounds.start,
+            endOffset: selectionBounds.end,
+          }
+        : null
+    );
+  }, [selectionBounds?.start, selectionBounds?.end]);
+
+  useEffect(() => {
+    ipc.publish("cursor", { cursorPosition });
+  }, [cursorPosition]);
+
+  useEffect(() => {
+    ipc.publish("scroll", { scrollOffset, totalLines, viewportHeight });
+  }, [scrollOffset]);
+
+  useEffect(() => {
+    // Content set by the controller (update/patch) isn't a user edit
+    if (content === liveConfig?.content) return;
+    ipc.publish("contentChanged", { content, cursorPosition });
+  }, [content]);
+
   // Helper: delete selection and return new text with cursor position
   const deleteSelection = useCallback(() => {
     const bounds = getSelectionBounds();
@@ -433,8 +475,9 @@ export function Document({ id, config: initialConfig, socketPath, scenario = "di
             {isEmailPreview ? "Email Preview" : (title || "Document")}
           </Text>
           <Box flexGrow={1} />
+          <ConnectionStatus status={ipc.status} />
           <Text color="gray" dimColor>
-            {totalLines > viewportHeight ? `${scrollPercent}%` : ""}
+            {totalLines > viewportHeight ? ` ${scrollPercent}%` : ""}
           </Text>
         </Box>
       </Box>
@@ -1,7 +1,7 @@
 // Text Selection Hook - Click and drag text selection with offset tracking
 
 import { useState, useCallback, useRef, useEffect } from "react";
-import { useMouse, type MouseEvent } from "../../calendar/hooks/use-mouse";
+import { useMouse, type MouseEvent } from "../../hooks/use-mouse";
 import type { PositionMapping, SelectionState, DocumentSelection } from "../types";
 
 export interface UseTextSelectionOptions {
@@ -1,5 +1,7 @@
 // Document Canvas Types
 
+import { array, boolean, literal, number, object, optional, refine, string, type Schema } from "../../schema";
+
 // Document canvas configuration (from Claude)
 export interface DocumentConfig {
   content: string;           // Markdown content
@@ -24,6 +26,35 @@ export interface DocumentDiff {
   type: "add" | "delete";    // Type of change
 }
 
+// Config schemas (validated before rendering and on update)
+export const documentDiffSchema: Schema<DocumentDiff> = refine(
+  object<DocumentDiff>({
+    startOffset: number({ integer: true, min: 0 }),
+    endOffset: number({ integer: true, min: 0 }),
+    type: literal("add", "delete"),
+  }),
+  (diff) => (diff.endOffset < diff.startOffset ? { path: "endOffset", message: "must be >= startOffset" } : null)
+);
+
+export const documentConfigSchema: Schema<DocumentConfig> = object<DocumentConfig>({
+  content: string(),
+  title: optional(string()),
+  diffs: optional(array(documentDiffSchema)),
+  readOnly: optional(boolean()),
+});
+
+export const emailConfigSchema: Schema<EmailConfig> = object<EmailConfig>({
+  content: string(),
+  title: optional(string()),
+  diffs: optional(array(documentDiffSchema)),
+  readOnly: optional(boolean()),
+  from: string(),
+  to: array(string()),
+  cc: optional(array(string())),
+  bcc: optional(array(string())),
+  subject: string(),
+});
+
 // Selection result (sent to Claude via IPC)
 export interface DocumentSelection {
   selectedText: string;      // The selected text content
@@ -2,7 +2,8 @@
 
 import React, { useState, useEffect, useCallback } from "react";
 import { Box, Text, useInput, useApp, useStdout } from "ink";
-import { useIPC } from "./calendar/hooks/use-ipc";
+import { useIPC } from "./hooks/use-ipc";
+import type { IPCMode } from "../ipc/types";
 import {
   type FlightConfig,
   type FlightResult,
@@ -27,6 +28,9 @@ interface Props {
   id: string;
   config?: FlightConfig;
   socketPath?: string;
+  ipcMode?: IPCMode;
+  /** Shared secret controllers must present when this canvas listens */
+  ipcToken?: string;
   scenario?: string;
 }
 
@@ -34,6 +38,8 @@ export function FlightCanvas({
   id,
   config: initialConfig,
   socketPath,
+  ipcMode,
+  ipcToken,
   scenario = "booking",
 }: Props) {
   const { exit } = useApp();
@@ -65,10 +71,26 @@ export function FlightCanvas({
   // IPC connection
   const ipc = useIPC({
     socketPath,
+    mode: ipcMode,
+    token: ipcToken,
+    kind: "flight",
+    id,
     scenario,
+    topics: ["cursor", "selection", "focus"],
+    config,
     onClose: () => exit(),
     onUpdate: (newConfig) => {
-      setConfig(newConfig as FlightConfig);
+      const next = newConfig as FlightConfig;
+      // Follow the highlighted flight by id, in case flights were added or removed around it
+      const currentId = config?.flights[selectedFlightIndex]?.id;
+      const index = next.flights.findIndex((flight) => flight.id === currentId);
+      if (index >= 0) {
+        setSelectedFlightIndex(index);
+      } else {
+        setSelectedFlightIndex(Math.min(selectedFlightIndex, Math.max(0, next.flights.length - 1)));
+        setSelectedSeat(null);
+      }
+      setConfig(next);
     },
   });
 
@@ -77,6 +99,20 @@ export function FlightCanvas({
   const selectedFlight = flights[selectedFlightIndex];
   const seatmap = selectedFlight?.seatmap;
 
+  // Push cursor, seat and focus changes to subscribed controllers
+  const cursorSeat = seatmap ? buildSeat(seatCursorRow, seatmap.seatsPerRow[seatCursorCol] ?? "") : null;
+  useEffect(() => {
+    ipc.publish("cursor", { flightId: selectedFlight?.id ?? null, flightIndex: selectedFlightIndex, seat: cursorSeat });
+  }, [selectedFlight?.id, selectedFlightIndex, cursorSeat]);
+
+  useEffect(() => {
+    ipc.publish("selection", { flightId: selectedFlight?.id ?? null, seat: selectedSeat });
+  }, [selectedSeat]);
+
+  useEffect(() => {
+    ipc.publish("focus", { focus: focusMode });
+  }, [focusMode]);
+
   // Listen for terminal resize
   useEffect(() => {
     const updateDimensions = () => {
@@ -368,6 +404,7 @@ export function FlightCanvas({
         spinnerFrame={spinnerFrame}
         spinnerChars={spinnerChars}
         width={termWidth}
+        connectionStatus={ipc.status}
       />
     </Box>
   );
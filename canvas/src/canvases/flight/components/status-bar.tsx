@@ -3,6 +3,8 @@
 import React from "react";
 import { Box, Text } from "ink";
 import { type FocusMode, CYBER_COLORS } from "../types";
+import { ConnectionStatus } from "../../components/connection-status";
+import type { ConnectionStatus as LinkStatus } from "../../../ipc/types";
 
 interface Props {
   focusMode: FocusMode;
@@ -12,6 +14,7 @@ interface Props {
   spinnerFrame: number;
   spinnerChars: string[];
   width: number;
+  connectionStatus: LinkStatus;
 }
 
 export function StatusBar({
@@ -22,6 +25,7 @@ export function StatusBar({
   spinnerFrame,
   spinnerChars,
   width,
+  connectionStatus,
 }: Props) {
   const border = "=".repeat(width - 2);
 
@@ -59,7 +63,10 @@ export function StatusBar({
       <Text color={CYBER_COLORS.neonMagenta}>{border}</Text>
       <Box justifyContent="space-between" width={width - 2}>
         <Text color={CYBER_COLORS.dim}>{helpText}</Text>
-        <Text color={CYBER_COLORS.neonGreen}>{statusText}</Text>
+        <Box>
+          <Text color={CYBER_COLORS.neonGreen}>{statusText ? `${statusText}  ` : ""}</Text>
+          <ConnectionStatus status={connectionStatus} />
+        </Box>
       </Box>
     </Box>
   );
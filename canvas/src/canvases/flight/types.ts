@@ -1,5 +1,7 @@
 // Flight Booking Canvas - Type Definitions
 
+import { array, boolean, isoDateTime, literal, number, object, optional, refine, string, type Schema } from "../../schema";
+
 export interface Airport {
   code: string;        // 3-letter code, e.g., "SFO"
   name: string;        // Full name, e.g., "San Francisco International"
@@ -45,6 +47,61 @@ export interface FlightResult {
   selectedSeat?: string;       // e.g., "12A"
 }
 
+// Config schemas (validated before rendering and on update)
+const seatSchema = string({ pattern: /^\d+[A-Z]$/, description: 'a seat like "12A"' });
+
+export const airportSchema: Schema<Airport> = object<Airport>({
+  code: string({ pattern: /^[A-Z]{3}$/, description: 'a 3-letter airport code like "SFO"' }),
+  name: string(),
+  city: string(),
+  timezone: string(),
+});
+
+export const seatmapSchema: Schema<Seatmap> = object<Seatmap>({
+  rows: number({ integer: true, min: 1 }),
+  seatsPerRow: array(string({ pattern: /^[A-Z]$/, description: "a single seat letter" })),
+  aisleAfter: array(string({ pattern: /^[A-Z]$/, description: "a single seat letter" })),
+  unavailable: array(seatSchema),
+  premium: array(seatSchema),
+  occupied: array(seatSchema),
+});
+
+export const flightSchema: Schema<Flight> = refine(
+  object<Flight>({
+    id: string({ minLength: 1 }),
+    airline: string(),
+    flightNumber: string(),
+    origin: airportSchema,
+    destination: airportSchema,
+    departureTime: isoDateTime(),
+    arrivalTime: isoDateTime(),
+    duration: number({ integer: true, min: 0 }),
+    price: number({ integer: true, min: 0 }),
+    currency: string({ pattern: /^[A-Z]{3}$/, description: 'a currency code like "USD"' }),
+    cabinClass: literal("economy", "premium", "business", "first"),
+    aircraft: optional(string()),
+    stops: number({ integer: true, min: 0 }),
+    seatmap: optional(seatmapSchema),
+  }),
+  (flight) =>
+    Date.parse(flight.arrivalTime) < Date.parse(flight.departureTime)
+      ? { path: "arrivalTime", message: "must not be before departureTime" }
+      : null
+);
+
+export const flightConfigSchema: Schema<FlightConfig> = refine(
+  object<FlightConfig>({
+    flights: array(flightSchema),
+    title: optional(string()),
+    showSeatmap: optional(boolean()),
+    selectedFlightId: optional(string()),
+  }),
+  (config) =>
+    config.selectedFlightId !== undefined && !config.flights.some((f) => f.id === config.selectedFlightId)
+      ? { path: "selectedFlightId", message: `no flight with id "${config.selectedFlightId}"` }
+      : null
+);
+
 // Cyberpunk color palette
 export const CYBER_COLORS = {
   neonCyan: "cyan",            // Primary accent, selected items
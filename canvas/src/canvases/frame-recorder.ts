@@ -0,0 +1,33 @@
+// Frame Recorder - remembers the last frame Ink drew, so a canvas can answer
+// getSnapshot with what is on its screen even where no multiplexer can
+// capture its pane. Ink repaints by erasing the previous frame and writing
+// the whole new one, so each write is a complete frame behind those erases.
+
+// Leading erase-line, cursor-up, cursor-left and clear-screen sequences
+const REPAINT_PREFIX = /^(?:\x1b\[(?:\d*[AGHJK]|2K|3J))+/;
+
+let lastFrame = "";
+
+// A stream that writes to stdout and records each frame written through it
+export function recordFrames(stdout: NodeJS.WriteStream): NodeJS.WriteStream {
+  return new Proxy(stdout, {
+    get(target, prop) {
+      if (prop === "write") {
+        return (chunk: unknown, ...rest: unknown[]) => {
+          if (typeof chunk === "string") {
+            const frame = chunk.replace(REPAINT_PREFIX, "");
+            if (frame) lastFrame = frame.replace(/\n$/, "");
+          }
+          return (target.write as (...args: unknown[]) => boolean)(chunk, ...rest);
+        };
+      }
+      const value = Reflect.get(target, prop, target);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+// The last frame, with its colours; empty before the first render
+export function getLastFrame(): string {
+  return lastFrame;
+}
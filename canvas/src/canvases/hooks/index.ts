@@ -1,3 +1,3 @@
-// Calendar hooks exports
+// Hooks shared by every canvas
 export * from "./use-mouse";
 export * from "./use-ipc";
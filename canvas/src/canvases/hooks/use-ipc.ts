@@ -0,0 +1,370 @@
+// IPC hook for canvas-side communication with controllers
+// Works in both directions: "listen" (canvas owns the socket) or "connect"
+// (canvas dials a listening controller), see ipc/connection.ts
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useApp } from "ink";
+import { openConnection, type IPCConnection } from "../../ipc/connection";
+import { applyPatch } from "../../ipc/patch";
+import type { IPCPeer } from "../../ipc/server";
+import {
+  BASE_CAPABILITIES,
+  EVENT_TOPICS,
+  PROTOCOL_VERSION,
+  type CanvasInfo,
+  type CanvasMessage,
+  type ConnectionStatus,
+  type ControllerMessage,
+  type EventTopic,
+  type IPCErrorCode,
+  type IPCMode,
+} from "../../ipc/types";
+import { formatIssues } from "../../schema";
+import { getLastFrame } from "../frame-recorder";
+import { validateCanvasConfig } from "../validate-config";
+
+// Canvas-specific controller messages not covered by ControllerMessage
+export interface ExtensionMessage {
+  type: string;
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+export interface UseIPCOptions {
+  socketPath: string | undefined;
+  mode?: IPCMode;
+  /** Listen mode: require controllers to send this token in their hello */
+  token?: string;
+  kind: string;
+  id: string;
+  scenario: string;
+  /** Extra controller message types handled through onMessage */
+  capabilities?: string[];
+  /** Event topics this canvas publishes through publish() */
+  topics?: EventTopic[];
+  /** The config currently on screen; patch messages are applied to it */
+  config?: unknown;
+  onClose?: () => void;
+  /** Receives the full, validated config after an update or patch */
+  onUpdate?: (config: unknown) => void;
+  onGetSelection?: () => { selectedText: string; startOffset: number; endOffset: number } | null;
+  onGetContent?: () => { content: string; cursorPosition: number };
+  /** Called for message types the hook doesn't handle itself; replies may be extension messages too */
+  onMessage?: (msg: ExtensionMessage, peer: IPCPeer<CanvasMessage | ExtensionMessage>) => void;
+  /** Called whenever a controller connects */
+  onConnect?: () => void;
+}
+
+export interface IPCHandle {
+  isConnected: boolean;
+  /** Link state for the connection-status indicator */
+  status: ConnectionStatus;
+  /** Last connection problem, kept out of stdout so the TUI isn't corrupted */
+  error: string | null;
+  send: (msg: CanvasMessage) => void;
+  sendReady: () => void;
+  sendSelected: (data: unknown) => void;
+  sendCancelled: (reason?: string) => void;
+  sendError: (message: string) => void;
+  /** Push an event to the controllers subscribed to its topic */
+  publish: (topic: EventTopic, data: unknown) => void;
+}
+
+export function useIPC(options: UseIPCOptions): IPCHandle {
+  const {
+    socketPath,
+    mode = "listen",
+    token,
+    kind,
+    id,
+    scenario,
+    capabilities = [],
+    topics = [],
+    config,
+    onClose,
+    onUpdate,
+    onGetSelection,
+    onGetContent,
+    onMessage,
+    onConnect,
+  } = options;
+  const { exit } = useApp();
+  const [status, setStatus] = useState<ConnectionStatus>(socketPath ? "connecting" : "offline");
+  const [error, setError] = useState<string | null>(null);
+  const connectionRef = useRef<IPCConnection | null>(null);
+  // Topics each connected controller subscribed to
+  const subscriptionsRef = useRef(new Map<IPCPeer, Set<EventTopic>>());
+  const onCloseRef = useRef(onClose);
+  const onUpdateRef = useRef(onUpdate);
+  const onGetSelectionRef = useRef(onGetSelection);
+  const onGetContentRef = useRef(onGetContent);
+  const onMessageRef = useRef(onMessage);
+  const onConnectRef = useRef(onConnect);
+  // Kept current between renders too, so back-to-back patches build on each other
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  useEffect(() => {
+    onCloseRef.current = onClose;
+    onUpdateRef.current = onUpdate;
+    onGetSelectionRef.current = onGetSelection;
+    onGetContentRef.current = onGetContent;
+    onMessageRef.current = onMessage;
+    onConnectRef.current = onConnect;
+  }, [onClose, onUpdate, onGetSelection, onGetContent, onMessage, onConnect]);
+
+  // Advertise query messages only when the canvas can answer them
+  const infoRef = useRef<CanvasInfo>({
+    protocolVersion: PROTOCOL_VERSION,
+    kind,
+    id,
+    scenario,
+    mode,
+    capabilities: [],
+    topics: [],
+  });
+  infoRef.current = {
+    ...infoRef.current,
+    kind,
+    id,
+    scenario,
+    mode,
+    capabilities: [
+      ...BASE_CAPABILITIES,
+      ...(onUpdate ? ["update", "patch"] : []),
+      ...(onGetSelection ? ["getSelection"] : []),
+      ...(onGetContent ? ["getContent"] : []),
+      ...capabilities,
+    ],
+    topics,
+  };
+
+  // Open the connection on mount
+  useEffect(() => {
+    if (!socketPath) return;
+
+    let mounted = true;
+
+    const open = async () => {
+      try {
+        const connection = await openConnection({
+          mode,
+          socketPath,
+          token,
+          onMessage: (msg: ControllerMessage, peer) => {
+            const replyError = (code: IPCErrorCode, message: string, requestId?: string) => {
+              peer.send({ type: "error", code, message, requestId });
+            };
+            const unsupported = (type: string, requestId?: string) => {
+              replyError(
+                "unsupported_in_scenario",
+                `${type} is not supported by the ${kind} canvas in the ${infoRef.current.scenario} scenario`,
+                requestId
+              );
+            };
+
+            if (!msg || typeof msg !== "object" || typeof msg.type !== "string") {
+              // Still tag the reply when the malformed message carried a requestId
+              const { requestId } = (msg ?? {}) as { requestId?: unknown };
+              replyError(
+                "parse_error",
+                "Message must be a JSON object with a string type",
+                typeof requestId === "string" ? requestId : undefined
+              );
+              return;
+            }
+
+            // Replies go only to the controller that asked, tagged with its requestId
+            const { requestId } = msg;
+            switch (msg.type) {
+              case "hello":
+                peer.send({ type: "welcome", requestId, ...infoRef.current });
+                break;
+              case "close":
+                peer.send({ type: "closing", requestId });
+                onCloseRef.current?.();
+                exit();
+                break;
+              case "update":
+              case "patch": {
+                if (!onUpdateRef.current) {
+                  unsupported(msg.type, requestId);
+                  break;
+                }
+                let next: unknown = msg.type === "update" ? msg.config : undefined;
+                if (msg.type === "patch") {
+                  try {
+                    next = applyPatch(configRef.current ?? {}, msg.patch, msg.format);
+                  } catch (err) {
+                    replyError("invalid_patch", (err as Error).message, requestId);
+                    break;
+                  }
+                }
+                // A bad config is rejected; the canvas keeps showing its current one
+                const result = validateCanvasConfig(infoRef.current.kind, infoRef.current.scenario, next);
+                if (!result.ok) {
+                  peer.send({
+                    type: "error",
+                    code: "invalid_config",
+                    message: `Invalid config:\n${formatIssues(result.issues)}`,
+                    issues: result.issues,
+                    requestId,
+                  });
+                  break;
+                }
+                configRef.current = result.value;
+                onUpdateRef.current(result.value);
+                peer.send({ type: msg.type === "update" ? "updated" : "patched", requestId });
+                break;
+              }
+              case "ping":
+                peer.send({ type: "pong", requestId });
+                break;
+              case "pong":
+                // Heartbeat reply; the client already noted the peer is alive
+                break;
+              case "subscribe":
+              case "unsubscribe": {
+                const subscribing = msg.type === "subscribe";
+                const requested: unknown = msg.topics ?? (subscribing ? undefined : EVENT_TOPICS);
+                if (!Array.isArray(requested)) {
+                  replyError("unknown_topic", `${msg.type} needs a topics array`, requestId);
+                  break;
+                }
+                const unknown = requested.filter((topic) => !EVENT_TOPICS.includes(topic));
+                if (unknown.length > 0) {
+                  replyError(
+                    "unknown_topic",
+                    `Unknown topic(s): ${unknown.join(", ")}. Expected: ${EVENT_TOPICS.join(", ")}`,
+                    requestId
+                  );
+                  break;
+                }
+                const subscriptions = subscriptionsRef.current;
+                const current = subscriptions.get(peer) ?? new Set<EventTopic>();
+                for (const topic of requested as EventTopic[]) {
+                  if (subscribing) current.add(topic);
+                  else current.delete(topic);
+                }
+                if (current.size > 0) subscriptions.set(peer, current);
+                else subscriptions.delete(peer);
+                peer.send({ type: "subscribed", requestId, topics: [...current] });
+                break;
+              }
+              case "getSelection":
+                if (!onGetSelectionRef.current) {
+                  unsupported(msg.type, requestId);
+                  break;
+                }
+                const selection = onGetSelectionRef.current() || null;
+                peer.send({ type: "selection", requestId, data: selection });
+                break;
+              case "getContent":
+                if (!onGetContentRef.current) {
+                  unsupported(msg.type, requestId);
+                  break;
+                }
+                peer.send({ type: "content", requestId, data: onGetContentRef.current() });
+                break;
+              case "getSnapshot":
+                peer.send({
+                  type: "snapshot",
+                  requestId,
+                  data: { frame: getLastFrame(), columns: process.stdout.columns ?? 0, rows: process.stdout.rows ?? 0 },
+                });
+                break;
+              default:
+                const extension = msg as ExtensionMessage;
+                if (onMessageRef.current && infoRef.current.capabilities.includes(extension.type)) {
+                  // The transport frames any JSON object, so the peer can carry extension replies
+                  onMessageRef.current(extension, peer as IPCPeer<CanvasMessage | ExtensionMessage>);
+                } else {
+                  replyError("unknown_message", `Unknown message type: ${extension.type}`, requestId);
+                }
+                break;
+            }
+          },
+          onInvalidMessage: (err, peer) => {
+            peer.send({ type: "error", code: "parse_error", message: err.message });
+          },
+          onPeerConnect: (peer) => {
+            if (!mounted) return;
+            // A controller we dialed doesn't know us yet; introduce ourselves
+            if (mode === "connect") {
+              peer.send({ type: "welcome", ...infoRef.current });
+              peer.send({ type: "ready", scenario });
+            }
+            onConnectRef.current?.();
+          },
+          onPeerDisconnect: (peer) => {
+            subscriptionsRef.current.delete(peer);
+          },
+          onStatusChange: (next) => {
+            if (mounted) setStatus(next);
+          },
+          onError: (err) => {
+            if (mounted) setError(err.message);
+          },
+        });
+
+        if (mounted) {
+          connectionRef.current = connection;
+        } else {
+          connection.close();
+        }
+      } catch (err) {
+        if (mounted) {
+          setStatus("disconnected");
+          setError(`Failed to open IPC connection: ${(err as Error).message}`);
+        }
+      }
+    };
+
+    open();
+
+    return () => {
+      mounted = false;
+      subscriptionsRef.current.clear();
+      connectionRef.current?.close();
+      connectionRef.current = null;
+    };
+  }, [socketPath, mode, token, scenario, exit]);
+
+  const send = useCallback((msg: CanvasMessage) => {
+    connectionRef.current?.broadcast(msg);
+  }, []);
+
+  const sendReady = useCallback(() => {
+    connectionRef.current?.broadcast({ type: "ready", scenario });
+  }, [scenario]);
+
+  const sendSelected = useCallback((data: unknown) => {
+    connectionRef.current?.broadcast({ type: "selected", data });
+  }, []);
+
+  const sendCancelled = useCallback((reason?: string) => {
+    connectionRef.current?.broadcast({ type: "cancelled", reason });
+  }, []);
+
+  const sendError = useCallback((message: string) => {
+    connectionRef.current?.broadcast({ type: "error", message });
+  }, []);
+
+  const publish = useCallback((topic: EventTopic, data: unknown) => {
+    for (const [peer, topics] of subscriptionsRef.current) {
+      if (topics.has(topic)) peer.send({ type: "event", topic, data });
+    }
+  }, []);
+
+  return {
+    isConnected: status === "connected",
+    status,
+    error,
+    send,
+    sendReady,
+    sendSelected,
+    sendCancelled,
+    sendError,
+    publish,
+  };
+}
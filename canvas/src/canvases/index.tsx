@@ -7,6 +7,8 @@ import { FlightCanvas } from "./flight";
 import type { FlightConfig } from "./flight/types";
 import { WandbCanvas } from "./wandb";
 import type { WandbConfig } from "./wandb/types";
+import type { IPCMode } from "../ipc/types";
+import { recordFrames } from "./frame-recorder";
 
 // Clear screen and hide cursor
 function clearScreen() {
@@ -20,7 +22,11 @@ function showCursor() {
 
 export interface RenderOptions {
   socketPath?: string;
+  ipcMode?: IPCMode;
+  ipcToken?: string;
   scenario?: string;
+  /** Keyboard input, when the process's own stdin isn't the terminal */
+  stdin?: NodeJS.ReadStream;
 }
 
 export async function renderCanvas(
@@ -80,10 +86,14 @@ async function renderCalendar(
       id={id}
       config={config}
       socketPath={options?.socketPath}
+      ipcMode={options?.ipcMode}
+      ipcToken={options?.ipcToken}
       scenario={options?.scenario || "display"}
     />,
     {
       exitOnCtrlC: true,
+      stdout: recordFrames(process.stdout),
+      ...(options?.stdin && { stdin: options.stdin }),
     }
   );
   await waitUntilExit();
@@ -99,10 +109,14 @@ async function renderDocument(
       id={id}
       config={config}
       socketPath={options?.socketPath}
+      ipcMode={options?.ipcMode}
+      ipcToken={options?.ipcToken}
       scenario={options?.scenario || "display"}
     />,
     {
       exitOnCtrlC: true,
+      stdout: recordFrames(process.stdout),
+      ...(options?.stdin && { stdin: options.stdin }),
     }
   );
   await waitUntilExit();
@@ -118,10 +132,14 @@ async function renderFlight(
       id={id}
       config={config}
       socketPath={options?.socketPath}
+      ipcMode={options?.ipcMode}
+      ipcToken={options?.ipcToken}
       scenario={options?.scenario || "booking"}
     />,
     {
       exitOnCtrlC: true,
+      stdout: recordFrames(process.stdout),
+      ...(options?.stdin && { stdin: options.stdin }),
     }
   );
   await waitUntilExit();
@@ -137,10 +155,14 @@ async function renderWandb(
       id={id}
       config={config}
       socketPath={options?.socketPath}
+      ipcMode={options?.ipcMode}
+      ipcToken={options?.ipcToken}
       scenario={options?.scenario || "monitor"}
     />,
     {
       exitOnCtrlC: true,
+      stdout: recordFrames(process.stdout),
+      ...(options?.stdin && { stdin: options.stdin }),
     }
   );
   await waitUntilExit();
@@ -0,0 +1,33 @@
+// Canvas Config Validation - picks the schema for a canvas kind and scenario
+// Used by the CLI before rendering and by useIPC before applying an update
+
+import { validate, type Schema, type ValidationResult } from "../schema";
+import { baseCalendarConfigSchema, meetingPickerConfigSchema } from "../scenarios/types";
+import { documentConfigSchema, emailConfigSchema } from "./document/types";
+import { flightConfigSchema } from "./flight/types";
+import { wandbConfigSchema } from "./wandb/types";
+
+export function getConfigSchema(kind: string, scenario = "display"): Schema<unknown> | undefined {
+  switch (kind) {
+    case "calendar":
+      return scenario === "meeting-picker" ? meetingPickerConfigSchema : baseCalendarConfigSchema;
+    case "document":
+      return scenario === "email-preview" ? emailConfigSchema : documentConfigSchema;
+    case "flight":
+      return flightConfigSchema;
+    case "wandb":
+      return wandbConfigSchema;
+    default:
+      return undefined;
+  }
+}
+
+// Kinds without a schema accept any config
+export function validateCanvasConfig(
+  kind: string,
+  scenario: string | undefined,
+  config: unknown
+): ValidationResult<unknown> {
+  const schema = getConfigSchema(kind, scenario);
+  return schema ? validate(schema, config) : { ok: true, value: config };
+}
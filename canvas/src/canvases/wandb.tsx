@@ -4,10 +4,13 @@
 import React, { useState, useEffect, useCallback, useRef } from "react";
 import { Box, Text, useInput, useApp, useStdout } from "ink";
 import { useLeetPane } from "./wandb/hooks/use-leet-pane";
+import { focusCanvasPane, focusLeetPane } from "../terminal";
 import { LeetViewer } from "./wandb/components/leet-viewer";
 import { StatusBar } from "./wandb/components/status-bar";
-import { connectWithRetry, type IPCClient } from "../ipc/client";
-import type { ControllerMessage } from "../ipc/types";
+import { ConnectionStatus } from "./components/connection-status";
+import { useIPC } from "./hooks/use-ipc";
+import type { IPCPeer } from "../ipc/server";
+import type { IPCMode } from "../ipc/types";
 import type {
   WandbConfig,
   WandbViewState,
@@ -18,6 +21,9 @@ interface Props {
   id: string;
   config?: WandbConfig;
   socketPath?: string;
+  ipcMode?: IPCMode;
+  /** Shared secret controllers must present when this canvas listens */
+  ipcToken?: string;
   scenario?: string;
 }
 
@@ -25,6 +31,8 @@ export function WandbCanvas({
   id,
   config: initialConfig,
   socketPath,
+  ipcMode,
+  ipcToken,
   scenario = "monitor",
 }: Props) {
   const { exit } = useApp();
@@ -39,8 +47,75 @@ export function WandbCanvas({
   // Config (can be updated via IPC)
   const [config, setConfig] = useState<WandbConfig | undefined>(initialConfig);
 
-  // IPC client reference
-  const clientRef = useRef<IPCClient | null>(null);
+  // IPC for communicating with Claude
+  const ipc = useIPC({
+    socketPath,
+    mode: ipcMode,
+    token: ipcToken,
+    kind: "wandb",
+    id,
+    scenario,
+    capabilities: ["getViewState", "sendKeys", "refresh", "focusLeet", "focusCanvas"],
+    topics: ["keypress"],
+    config,
+    onClose: () => leetPane.stop(),
+    onUpdate: (newConfig) => {
+      setConfig(newConfig as WandbConfig);
+    },
+    onMessage: (msg, peer) => {
+      const wandbMsg = msg as WandbControllerMessage;
+      switch (wandbMsg.type) {
+        case "getViewState":
+          sendViewState(leetPane.output, wandbMsg.requestId, peer);
+          break;
+        case "sendKeys": {
+          const { keys, requestId } = wandbMsg;
+          // Sent over the wire, so keys may be anything
+          const valid =
+            typeof keys === "string" || (Array.isArray(keys) && keys.every((key) => typeof key === "string"));
+          if (!valid) {
+            peer.send({
+              type: "error",
+              code: "invalid_message",
+              message: "sendKeys needs keys as a string or an array of strings",
+              requestId,
+            });
+            break;
+          }
+          sendLeetKeys(typeof keys === "string" ? [keys] : keys).then((sent) => {
+            peer.send(
+              sent
+                ? { type: "keysSent", keys, requestId }
+                : { type: "error", message: "No Leet pane to send keys to", requestId }
+            );
+          });
+          break;
+        }
+        case "refresh":
+          leetPane.capture().then(() => peer.send({ type: "refreshed", requestId: wandbMsg.requestId }));
+          break;
+        case "focusLeet":
+          focusLeetPane().then((focused) => {
+            peer.send(
+              focused
+                ? { type: "focused", pane: "leet", requestId: wandbMsg.requestId }
+                : { type: "error", message: "No Leet pane to focus", requestId: wandbMsg.requestId }
+            );
+          });
+          break;
+        case "focusCanvas":
+          focusCanvasPane(id).then(
+            () => peer.send({ type: "focused", pane: "canvas", requestId: wandbMsg.requestId }),
+            (err) => peer.send({ type: "error", message: (err as Error).message, requestId: wandbMsg.requestId })
+          );
+          break;
+      }
+    },
+    onConnect: () => {
+      // Send initial view state after a delay to let Leet start
+      setTimeout(() => sendViewState(leetPane.output), 1000);
+    },
+  });
 
   // Leet pane hook
   const leetPane = useLeetPane({
@@ -52,18 +127,13 @@ export function WandbCanvas({
     },
     onExit: () => {
       // Leet exited, notify controller
-      clientRef.current?.send({
-        type: "cancelled",
-        reason: "Leet process exited",
-      });
+      ipc.sendCancelled("Leet process exited");
     },
   });
 
-  // Build and send view state to Claude
+  // Build and send view state to Claude (to one peer when answering a request)
   const sendViewState = useCallback(
-    (terminalOutput: string) => {
-      if (!clientRef.current) return;
-
+    (terminalOutput: string, requestId?: string, peer?: IPCPeer) => {
       const viewState: WandbViewState = {
         terminalSnapshot: terminalOutput,
         terminalDimensions: { cols: dimensions.width, rows: dimensions.height },
@@ -77,12 +147,13 @@ export function WandbCanvas({
         viewState.errors = [leetPane.error];
       }
 
-      clientRef.current.send({
+      (peer ?? ipc).send({
         type: "viewState" as any,
+        requestId,
         data: viewState,
       });
     },
-    [dimensions, leetPane.state.paneId, leetPane.error]
+    [dimensions, leetPane.state.paneId, leetPane.error, ipc]
   );
 
   // Listen for terminal resize
@@ -100,76 +171,26 @@ export function WandbCanvas({
     };
   }, [stdout]);
 
-  // Connect to controller
-  useEffect(() => {
-    if (!socketPath) return;
-
-    let mounted = true;
+  // Keys forwarded to Leet are also pushed to subscribed controllers
+  const forwardKeys = (keys: string) => {
+    leetPane.sendKeys(keys);
+    ipc.publish("keypress", { keys });
+  };
 
-    const connect = async () => {
-      try {
-        const client = await connectWithRetry({
-          socketPath,
-          onMessage: (msg: ControllerMessage | WandbControllerMessage) => {
-            switch (msg.type) {
-              case "close":
-                leetPane.stop();
-                exit();
-                break;
-              case "update":
-                setConfig(msg.config as WandbConfig);
-                break;
-              case "ping":
-                client.send({ type: "pong" });
-                break;
-              case "getViewState":
-                sendViewState(leetPane.output);
-                break;
-              case "sendKeys":
-                leetPane.sendKeys((msg as any).keys);
-                break;
-              case "refresh":
-                leetPane.capture();
-                break;
-            }
-          },
-          onDisconnect: () => {
-            // Controller disconnected
-          },
-          onError: (err) => {
-            console.error("IPC error:", err);
-          },
-        });
-
-        if (mounted) {
-          clientRef.current = client;
-          // Send ready message
-          client.send({ type: "ready", scenario });
-          // Send initial view state after a delay to let Leet start
-          setTimeout(() => sendViewState(leetPane.output), 1000);
-        } else {
-          client.close();
-        }
-      } catch (err) {
-        console.error("Failed to connect to controller:", err);
-      }
-    };
-
-    connect();
-
-    return () => {
-      mounted = false;
-      clientRef.current?.close();
-      clientRef.current = null;
-    };
-  }, [socketPath, scenario, exit]);
+  // Keys from a sendKeys request, one at a time; false once one fails
+  const sendLeetKeys = async (keys: string[]): Promise<boolean> => {
+    for (const key of keys) {
+      if (!(await leetPane.sendKeys(key))) return false;
+    }
+    return true;
+  };
 
   // Keyboard input
   useInput((input, key) => {
     // Quit
     if (input === "q" || (key.ctrl && input === "c")) {
       leetPane.stop();
-      clientRef.current?.send({ type: "cancelled", reason: "User quit" });
+      ipc.sendCancelled("User quit");
       exit();
       return;
     }
@@ -182,25 +203,25 @@ export function WandbCanvas({
 
     // Pass navigation keys to Leet
     if (key.tab) {
-      leetPane.sendKeys("Tab");
+      forwardKeys("Tab");
     } else if (key.upArrow) {
-      leetPane.sendKeys("Up");
+      forwardKeys("Up");
     } else if (key.downArrow) {
-      leetPane.sendKeys("Down");
+      forwardKeys("Down");
     } else if (key.leftArrow) {
-      leetPane.sendKeys("Left");
+      forwardKeys("Left");
     } else if (key.rightArrow) {
-      leetPane.sendKeys("Right");
+      forwardKeys("Right");
     } else if (input === "[") {
-      leetPane.sendKeys("[");
+      forwardKeys("[");
     } else if (input === "]") {
-      leetPane.sendKeys("]");
+      forwardKeys("]");
     } else if (input === "/") {
-      leetPane.sendKeys("/");
+      forwardKeys("/");
     } else if (input === "n") {
-      leetPane.sendKeys("n");
+      forwardKeys("n");
     } else if (input === "N") {
-      leetPane.sendKeys("N");
+      forwardKeys("N");
     }
   });
 
@@ -233,6 +254,8 @@ export function WandbCanvas({
         </Text>
         <Text color="gray"> | </Text>
         <Text color="white">{config?.title || config?.runDir || "No run specified"}</Text>
+        <Box flexGrow={1} />
+        <ConnectionStatus status={ipc.status} />
       </Box>
 
       {/* Main content area */}
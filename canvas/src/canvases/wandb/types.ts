@@ -1,5 +1,7 @@
 // W&B Canvas Type Definitions
 
+import { array, number, object, optional, string, type Schema } from "../../schema";
+
 // ============================================
 // Configuration Types (from Claude to Canvas)
 // ============================================
@@ -15,6 +17,13 @@ export interface WandbConfig {
   refreshInterval?: number;
 }
 
+export const wandbConfigSchema: Schema<WandbConfig> = object<WandbConfig>({
+  runDir: string({ minLength: 1 }),
+  title: optional(string()),
+  leetArgs: optional(array(string())),
+  refreshInterval: optional(number({ min: 0 })),
+});
+
 // ============================================
 // View State Types (Canvas to Claude)
 // ============================================
@@ -91,14 +100,17 @@ export interface WandbResult {
 // ============================================
 
 export type WandbControllerMessage =
-  | { type: "getViewState" }
-  | { type: "sendKeys"; keys: string }
-  | { type: "refresh" }
-  | { type: "focusLeet" }
-  | { type: "focusCanvas" };
+  | { type: "getViewState"; requestId?: string }
+  | { type: "sendKeys"; keys: string | string[]; requestId?: string } // tmux key names, sent in order
+  | { type: "refresh"; requestId?: string }
+  | { type: "focusLeet"; requestId?: string }
+  | { type: "focusCanvas"; requestId?: string };
 
 export type WandbCanvasMessage =
-  | { type: "viewState"; data: WandbViewState }
+  | { type: "viewState"; data: WandbViewState; requestId?: string }
+  | { type: "keysSent"; keys: string | string[]; requestId?: string } // sendKeys reached Leet
+  | { type: "refreshed"; requestId?: string } // refresh recaptured the Leet pane
+  | { type: "focused"; pane: "leet" | "canvas"; requestId?: string } // focusLeet/focusCanvas succeeded
   | { type: "leetOutput"; output: string }
   | { type: "leetStarted"; paneId: string }
   | { type: "leetExited"; exitCode: number };
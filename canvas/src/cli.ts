@@ -1,12 +1,131 @@
 #!/usr/bin/env bun
 import { program } from "commander";
-import { detectTerminal, spawnCanvas } from "./terminal";
+import { detectTerminal, shellCommand, spawnCanvas, type SpawnResult } from "./terminal";
+import type { CanvasOutcome, CanvasReply } from "./ipc/request";
+import type { ReadStream } from "tty";
+import type { ConfigFormat } from "./config";
+import type { CanvasInfo } from "./ipc/types";
+import type { RegisteredCanvas } from "./runtime";
+import type { SchemaIssue } from "./schema";
 
 // Set window title via ANSI escape codes
 function setWindowTitle(title: string) {
   process.stdout.write(`\x1b]0;${title}\x07`);
 }
 
+// Parse a JSON-valued option, exiting with the parse error if it is malformed
+function parseJSONOption(flag: string, json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch (err) {
+    console.error(`Invalid ${flag} JSON: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+// Parse a --timeout value in milliseconds, exiting if it isn't a positive number
+function parseTimeoutOption(value: string): number {
+  const timeoutMs = Number(value);
+  if (!(timeoutMs > 0)) {
+    console.error(`Invalid --timeout '${value}' (expected milliseconds)`);
+    process.exit(1);
+  }
+  return timeoutMs;
+}
+
+// Report an unusable config as { error, issues? } JSON on stdout and exit 1
+function configError(error: string, issues?: SchemaIssue[]): never {
+  console.log(JSON.stringify(issues ? { error, issues } : { error }));
+  process.exit(1);
+}
+
+interface ConfigOptions {
+  config?: string;
+  configFile?: string;
+  format?: string;
+}
+
+interface ConfigSource {
+  text: string;
+  format: ConfigFormat;
+  /** How to name the source in errors */
+  flag: string;
+  /** Absolute path, when the config came from a file */
+  path?: string;
+}
+
+const FORMAT_NAMES: Record<ConfigFormat, string> = {
+  json: "JSON",
+  json5: "JSON5",
+  yaml: "YAML",
+  markdown: "Markdown",
+};
+
+// Where a command's config comes from: --config <json>, --config - (stdin) or
+// --config-file <path>, in the --format given or the one the file's extension implies
+async function readConfigSource(options: ConfigOptions): Promise<ConfigSource | undefined> {
+  const { formatFromPath, isConfigFormat, CONFIG_FORMATS } = await import("./config");
+  if (options.config !== undefined && options.configFile !== undefined) {
+    configError("Use either --config or --config-file, not both");
+  }
+  if (options.format !== undefined && !isConfigFormat(options.format)) {
+    configError(`Unknown --format '${options.format}' (expected ${CONFIG_FORMATS.join(", ")})`);
+  }
+  const format = options.format as ConfigFormat | undefined;
+  if (options.configFile !== undefined) {
+    const { resolve } = await import("path");
+    const path = resolve(options.configFile);
+    const file = Bun.file(path);
+    if (!(await file.exists())) {
+      configError(`Config file not found: ${options.configFile}`);
+    }
+    return {
+      text: await file.text(),
+      format: format ?? formatFromPath(path),
+      flag: `--config-file ${options.configFile}`,
+      path,
+    };
+  }
+  if (options.config === "-") {
+    return { text: await Bun.stdin.text(), format: format ?? "json", flag: "--config - (stdin)" };
+  }
+  if (options.config !== undefined) {
+    return { text: options.config, format: format ?? "json", flag: "--config" };
+  }
+  return undefined;
+}
+
+// Parse a config in its format, exiting with the parse error if it is malformed
+async function parseConfigSource(source: ConfigSource): Promise<unknown> {
+  const { parseConfigText } = await import("./config");
+  try {
+    return parseConfigText(source.text, source.format);
+  } catch (err) {
+    configError(`Invalid ${source.flag} ${FORMAT_NAMES[source.format]}: ${(err as Error).message}`);
+  }
+}
+
+// Read a command's config without validating it (for updates, the canvas validates)
+async function readConfigOption(options: ConfigOptions): Promise<unknown> {
+  const source = await readConfigSource(options);
+  return source ? parseConfigSource(source) : undefined;
+}
+
+// Parse and validate a config, exiting with path-level errors if it's unusable
+async function parseConfigOption(kind: string, scenario: string | undefined, source: ConfigSource): Promise<unknown> {
+  const { supportsMarkdown } = await import("./config");
+  if (source.format === "markdown" && !supportsMarkdown(kind)) {
+    configError(`${kind} canvases can't be configured from Markdown`);
+  }
+  const config = await parseConfigSource(source);
+  const { validateCanvasConfig } = await import("./canvases/validate-config");
+  const result = validateCanvasConfig(kind, scenario, config);
+  if (!result.ok) {
+    configError(`Invalid ${kind} config${scenario ? ` for scenario '${scenario}'` : ""}`, result.issues);
+  }
+  return result.value;
+}
+
 program
   .name("claude-canvas")
   .description("Interactive terminal canvases for Claude")
@@ -16,37 +135,158 @@ program
   .command("show [kind]")
   .description("Show a canvas in the current terminal")
   .option("--id <id>", "Canvas ID")
-  .option("--config <json>", "Canvas configuration (JSON)")
-  .option("--socket <path>", "Unix socket path for IPC")
+  .option("--config <json>", "Canvas configuration (JSON, or - to read stdin)")
+  .option("--config-file <path>", "Read the canvas configuration from a file")
+  .option("--format <format>", "Config format: json, json5, yaml or markdown (default: from the file extension)")
+  .option("--socket <address>", "IPC address: socket path or unix://, tcp://, ws:// URL")
+  .option("--ipc-mode <mode>", "listen on the socket, or connect to a listening controller", "listen")
+  .option("--token <token>", "Require controllers to present this secret (default: $CANVAS_TOKEN)")
   .option("--scenario <name>", "Scenario name (e.g., display, meeting-picker)")
   .action(async (kind = "demo", options) => {
     const id = options.id || `${kind}-1`;
-    const config = options.config ? JSON.parse(options.config) : undefined;
     const socketPath = options.socket;
+    const ipcMode = options.ipcMode;
+    const ipcToken = options.token ?? process.env.CANVAS_TOKEN;
     const scenario = options.scenario || "display";
+    const configSource = await readConfigSource(options);
+    const config = configSource ? await parseConfigOption(kind, options.scenario, configSource) : undefined;
+
+    // A canvas that talks IPC claims its id and registers itself until it exits
+    if (socketPath) {
+      const { acquireCanvasLock, recordCanvasExit, registerCanvas } = await import("./runtime");
+      const { detectMultiplexer } = await import("./multiplexer");
+      const { constants } = await import("os");
+      const mux = detectMultiplexer();
+      try {
+        const lock = await acquireCanvasLock(id);
+        registerCanvas({
+          id,
+          kind,
+          scenario,
+          pid: process.pid,
+          paneId: mux?.currentPane(),
+          multiplexer: mux?.name,
+          socket: socketPath,
+          startedAt: new Date().toISOString(),
+        });
+        process.on("exit", (code) => {
+          recordCanvasExit(id, code);
+          lock.release();
+        });
+        // Replaced or closed panes hang up or terminate the canvas; still clean
+        // up, exiting with the status a shell would report for the signal
+        for (const signal of ["SIGHUP", "SIGTERM"] as const) {
+          process.on(signal, () => process.exit(128 + constants.signals[signal]));
+        }
+      } catch (err) {
+        console.error((err as Error).message);
+        process.exit(1);
+      }
+    }
 
     // Set window title
     setWindowTitle(`canvas: ${kind}`);
 
     // Dynamically import and render the canvas
     const { renderCanvas } = await import("./canvases");
-    await renderCanvas(kind, id, config, { socketPath, scenario });
+    // A config piped in used up stdin, so take keyboard input from the terminal
+    let stdin: ReadStream | undefined;
+    if (options.config === "-" && !process.stdin.isTTY) {
+      const { openSync } = await import("fs");
+      const { ReadStream } = await import("tty");
+      stdin = new ReadStream(openSync("/dev/tty", "r"));
+    }
+    await renderCanvas(kind, id, config, { socketPath, ipcMode, ipcToken, scenario, stdin });
+    // An open terminal stream keeps Bun running even once destroyed
+    if (stdin) process.exit(0);
   });
 
 program
   .command("spawn [kind]")
   .description("Spawn a canvas in a new terminal window")
   .option("--id <id>", "Canvas ID")
-  .option("--config <json>", "Canvas configuration (JSON)")
-  .option("--socket <path>", "Unix socket path for IPC")
+  .option("--config <json>", "Canvas configuration (JSON, or - to read stdin)")
+  .option("--config-file <path>", "Read the canvas configuration from a file")
+  .option("--format <format>", "Config format: json, json5, yaml or markdown (default: from the file extension)")
+  .option("--socket <address>", "IPC address: socket path or unix://, tcp://, ws:// URL")
+  .option("--ipc-mode <mode>", "listen on the socket, or connect to a listening controller")
+  .option("--token <token>", "Require controllers to present this secret (default: $CANVAS_TOKEN)")
   .option("--scenario <name>", "Scenario name (e.g., display, meeting-picker)")
+  .option("--pane <pane>", "new, reuse, or the id of a canvas whose pane to take over (default: tile next to running canvases)")
+  .option("--split <direction>", "h (side by side) or v (stacked) for a new pane")
+  .option("--size <pct>", "Size of a new pane as a percentage")
+  .option("--target <pane>", "tmux pane to split (e.g. %3)")
+  .option("--inline", "Run the canvas in the foreground of this terminal instead of a tmux pane")
+  .option("--keep-pane", "Leave the pane open after the canvas exits, showing its exit status")
+  .option("--wait", "Block until the user selects or cancels, then print the result (see wait)")
+  .option("--timeout <ms>", "With --wait, give up after this long")
   .action(async (kind = "demo", options) => {
     const id = options.id || `${kind}-1`;
-    const result = await spawnCanvas(kind, id, options.config, {
-      socketPath: options.socket,
-      scenario: options.scenario,
-    });
-    console.log(`Spawned ${kind} canvas '${id}' via ${result.method}`);
+    if (options.wait && options.ipcMode === "connect") {
+      console.error("--wait needs the canvas to listen; it can't be combined with --ipc-mode connect");
+      process.exit(1);
+    }
+    const timeoutMs = options.timeout === undefined ? undefined : parseTimeoutOption(options.timeout);
+    if (options.split && options.split !== "h" && options.split !== "v") {
+      console.error(`Unknown split direction '${options.split}' (expected h or v)`);
+      process.exit(1);
+    }
+    const size = options.size === undefined ? undefined : Number(options.size);
+    if (size !== undefined && !(Number.isInteger(size) && size > 0 && size < 100)) {
+      console.error(`Invalid --size '${options.size}' (expected a percentage between 1 and 99)`);
+      process.exit(1);
+    }
+    // Catch bad configs here, before a pane opens only to show an error
+    const configSource = await readConfigSource(options);
+    const config = configSource ? await parseConfigOption(kind, options.scenario, configSource) : undefined;
+    let result: SpawnResult;
+    try {
+      // The canvas reads the caller's file itself; other configs go through a runtime file
+      result = await spawnCanvas(kind, id, config === undefined ? undefined : JSON.stringify(config), {
+        configFile: configSource?.path,
+        configFormat: options.format,
+        socketPath: options.socket,
+        ipcMode: options.ipcMode,
+        scenario: options.scenario,
+        token: options.token ?? process.env.CANVAS_TOKEN,
+        pane: options.pane,
+        split: options.split,
+        size,
+        target: options.target,
+        inline: options.inline,
+        keepPane: options.keepPane,
+      });
+    } catch (err) {
+      console.error(`Failed to spawn ${kind} canvas '${id}': ${(err as Error).message}`);
+      process.exit(1);
+    }
+
+    const { getSocketPath } = await import("./ipc/types");
+    const address = options.socket ?? getSocketPath(id);
+
+    // Inline canvases own the terminal until they close; any result is printed after
+    if (result.exited) {
+      if (!options.wait) process.exit(await result.exited);
+      const { waitForCanvasResult } = await import("./ipc/request");
+      const outcome = waitForCanvasResult(address, { token: options.token ?? process.env.CANVAS_TOKEN, timeoutMs });
+      const first = await Promise.race([outcome, result.exited.then(() => null)]);
+      if (first?.status === "timeout") process.kill(result.pid!);
+      const exitCode = await result.exited;
+      const finished = await outcome;
+      reportOutcome(finished.status === "error" ? { ...finished, exitCode } : finished);
+    }
+
+    const where = result.paneId ? ` in pane ${result.paneId}` : "";
+    // With --wait, stdout is reserved for the result
+    const log = options.wait ? console.error : console.log;
+    log(`Spawned ${kind} canvas '${id}' via ${result.method}${where}`);
+    if (result.session) {
+      log(`Attach with: ${shellCommand(["tmux", "attach-session", "-t", result.session])}`);
+    }
+
+    if (options.wait) {
+      await waitForCanvas(id, address, options.token, timeoutMs);
+    }
   });
 
 program
@@ -56,250 +296,535 @@ program
     const env = detectTerminal();
     console.log("Terminal Environment:");
     console.log(`  In tmux: ${env.inTmux}`);
+    console.log(`  Multiplexer: ${env.multiplexer ?? "none"}`);
+    console.log(`  tmux installed: ${env.hasTmux}`);
+    console.log(`  Interactive terminal: ${env.isTTY}`);
+    console.log(`  Spawn modes: ${env.modes.join(", ") || "none"}`);
     console.log(`\nSummary: ${env.summary}`);
   });
 
 program
-  .command("update <id>")
+  .command("gc")
+  .description("Remove sockets, configs and locks left behind by canvases that are no longer running")
+  .option("--dry-run", "List what would be removed without removing it")
+  .action(async (options) => {
+    const { collectGarbage, getRuntimeDir } = await import("./runtime");
+    const report = await collectGarbage({ dryRun: options.dryRun });
+    const verb = options.dryRun ? "Would remove" : "Removed";
+    for (const { id, files } of report.removed) {
+      console.log(`${verb} '${id}': ${files.join(", ")}`);
+    }
+    console.log(
+      `${report.removed.length} dead, ${report.alive.length} running canvas(es) in ${getRuntimeDir()}`
+    );
+  });
+
+// How to reach a running canvas: any transport address (unix://, tcp://, ws://)
+// given with --socket, else the address it registered, else its default socket
+interface CanvasAddressOptions {
+  socket?: string;
+  token?: string;
+}
+
+async function resolveCanvasAddress(id: string, options: CanvasAddressOptions): Promise<string> {
+  if (options.socket) return options.socket;
+  const { getCanvasInstance } = await import("./runtime");
+  const { getSocketPath } = await import("./ipc/types");
+  return getCanvasInstance(id)?.socket ?? getSocketPath(id);
+}
+
+// Open a request session with a canvas; the token comes from --token or CANVAS_TOKEN
+async function openSession(id: string, options: CanvasAddressOptions) {
+  const { openCanvasSession } = await import("./ipc/request");
+  return openCanvasSession(await resolveCanvasAddress(id, options), {
+    token: options.token ?? process.env.CANVAS_TOKEN,
+  });
+}
+
+// Send one request on its own connection and return the reply
+async function requestFromCanvas(
+  id: string,
+  options: CanvasAddressOptions,
+  message: { type: string; [key: string]: unknown },
+  timeoutMs?: number
+) {
+  const { sendCanvasRequest } = await import("./ipc/request");
+  return sendCanvasRequest(await resolveCanvasAddress(id, options), message, {
+    token: options.token ?? process.env.CANVAS_TOKEN,
+    timeoutMs,
+  });
+}
+
+function describeErrorReply(reply: CanvasReply): string {
+  return `${reply.message} (${reply.code ?? "error"})`;
+}
+
+// Every command that talks to a running canvas takes the same address options
+function canvasCommand(nameAndArgs: string) {
+  return program
+    .command(nameAndArgs)
+    .option("--socket <address>", "Canvas address: socket path or unix://, tcp://, ws:// URL (default: the address it registered)")
+    .option("--token <token>", "Shared secret the canvas requires (default: $CANVAS_TOKEN)");
+}
+
+// Send an update or patch and wait for the canvas to accept or reject it
+async function sendConfigChange(
+  id: string,
+  options: CanvasAddressOptions,
+  message: { type: string; [key: string]: unknown }
+): Promise<void> {
+  try {
+    const reply = await requestFromCanvas(id, options, message);
+    if (reply.type === "error") {
+      configError(
+        `Canvas '${id}' rejected the ${message.type}: ${describeErrorReply(reply)}`,
+        reply.issues as SchemaIssue[] | undefined
+      );
+    }
+    console.log(`Sent ${message.type} to canvas '${id}'`);
+  } catch (err) {
+    console.error(`Failed to send ${message.type} to canvas '${id}':`, (err as Error).message);
+    process.exit(1);
+  }
+}
+
+canvasCommand("update <id>")
   .description("Send updated config to a running canvas via IPC")
-  .option("--config <json>", "New canvas configuration (JSON)")
+  .option("--config <json>", "New canvas configuration (JSON, or - to read stdin)")
+  .option("--config-file <path>", "Read the new configuration from a file")
+  .option("--format <format>", "Config format: json, json5, yaml or markdown (default: from the file extension)")
   .action(async (id: string, options) => {
-    const { getSocketPath } = await import("./ipc/types");
-    const socketPath = getSocketPath(id);
-    const config = options.config ? JSON.parse(options.config) : {};
+    const config = (await readConfigOption(options)) ?? {};
+    await sendConfigChange(id, options, { type: "update", config });
+  });
+
+canvasCommand("patch <id>")
+  .description("Change part of a running canvas's config via IPC")
+  .requiredOption("--patch <json>", "JSON Merge Patch object, or JSON Patch array of operations")
+  .option("--format <format>", "merge or json-patch (default: json-patch for arrays, merge otherwise)")
+  .action(async (id: string, options) => {
+    if (options.format && options.format !== "merge" && options.format !== "json-patch") {
+      console.error(`Unknown patch format '${options.format}' (expected merge or json-patch)`);
+      process.exit(1);
+    }
+    const patch = parseJSONOption("--patch", options.patch);
+    await sendConfigChange(id, options, { type: "patch", patch, format: options.format });
+  });
+
+canvasCommand("request <id> <type>")
+  .description("Send any controller message to a running canvas and print its reply as JSON")
+  .option("--json <payload>", "Message fields other than type, as a JSON object")
+  .option("--timeout <ms>", "How long to wait for the reply", "2000")
+  .action(async (id: string, type: string, options) => {
+    const payload = options.json ? parseJSONOption("--json", options.json) : {};
+    if (typeof payload !== "object" || payload === null || Array.isArray(payload)) {
+      console.error("--json must be a JSON object");
+      process.exit(1);
+    }
+    const timeoutMs = parseTimeoutOption(options.timeout);
 
     try {
-      const socket = await Bun.connect({
-        unix: socketPath,
-        socket: {
-          data(socket, data) {
-            // Ignore responses
-          },
-          open(socket) {
-            const msg = JSON.stringify({ type: "update", config });
-            socket.write(msg + "\n");
-            socket.end();
-          },
-          close() {},
-          error(socket, error) {
-            console.error("Socket error:", error);
-          },
-        },
-      });
-      console.log(`Sent update to canvas '${id}'`);
+      const reply = await requestFromCanvas(id, options, { ...payload, type }, timeoutMs);
+      console.log(JSON.stringify(reply, null, 2));
+      process.exit(reply.type === "error" ? 1 : 0);
     } catch (err) {
-      console.error(`Failed to connect to canvas '${id}':`, err);
+      console.error(`Failed to send ${type} to canvas '${id}':`, (err as Error).message);
+      process.exit(1);
     }
   });
 
-program
-  .command("selection <id>")
+canvasCommand("selection <id>")
   .description("Get the current selection from a running document canvas")
-  .action(async (id: string) => {
-    const { getSocketPath } = await import("./ipc/types");
-    const socketPath = getSocketPath(id);
+  .action(async (id: string, options: CanvasAddressOptions) => {
+    try {
+      const reply = await requestFromCanvas(id, options, { type: "getSelection" });
+      if (reply.type === "error") throw new Error(describeErrorReply(reply));
+      console.log(JSON.stringify(reply.type === "selection" ? reply.data : null));
+    } catch (err) {
+      console.error(`Failed to get selection from canvas '${id}':`, (err as Error).message);
+      process.exit(1);
+    }
+  });
 
+canvasCommand("content <id>")
+  .description("Get the current content from a running document canvas")
+  .action(async (id: string, options: CanvasAddressOptions) => {
     try {
-      let resolved = false;
-      const result = await new Promise<string>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          if (!resolved) {
-            resolved = true;
-            reject(new Error("Timeout waiting for response"));
-          }
-        }, 2000);
-
-        Bun.connect({
-          unix: socketPath,
-          socket: {
-            data(socket, data) {
-              if (resolved) return;
-              clearTimeout(timeout);
-              resolved = true;
-              const response = JSON.parse(data.toString().trim());
-              if (response.type === "selection") {
-                resolve(JSON.stringify(response.data));
-              } else {
-                resolve(JSON.stringify(null));
-              }
-              socket.end();
-            },
-            open(socket) {
-              const msg = JSON.stringify({ type: "getSelection" });
-              socket.write(msg + "\n");
-            },
-            close() {
-              if (!resolved) {
-                resolved = true;
-                clearTimeout(timeout);
-                resolve(JSON.stringify(null));
-              }
-            },
-            error(socket, error) {
-              if (!resolved) {
-                resolved = true;
-                clearTimeout(timeout);
-                reject(error);
-              }
-            },
-          },
-        });
-      });
-      console.log(result);
+      const reply = await requestFromCanvas(id, options, { type: "getContent" });
+      if (reply.type === "error") throw new Error(describeErrorReply(reply));
+      console.log(JSON.stringify(reply.type === "content" ? reply.data : null));
+    } catch (err) {
+      console.error(`Failed to get content from canvas '${id}':`, (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+canvasCommand("capture <id>")
+  .description("Print what a canvas shows: from its pane, or as the canvas last drew it when it has none")
+  .option("--plain", "Text only, escape codes stripped (default)")
+  .option("--ansi", "Keep colours as ANSI escape codes")
+  .option("--html", "Render colours as an HTML <pre> block")
+  .option("--snapshot", "Ask the canvas for its last frame even when its pane can be captured")
+  .action(async (id: string, options: CanvasAddressOptions & { plain?: boolean; ansi?: boolean; html?: boolean; snapshot?: boolean }) => {
+    if ([options.plain, options.ansi, options.html].filter(Boolean).length > 1) {
+      console.error("Choose one of --plain, --ansi and --html");
+      process.exit(1);
+    }
+    const { ansiToHtml, stripAnsi } = await import("./ansi");
+    const { captureCanvasPane, hasCanvasPane } = await import("./terminal");
+    const escapes = !!(options.ansi || options.html);
+
+    let captured: string;
+    try {
+      // A canvas addressed by --socket may be on another machine, away from its pane
+      if (!options.snapshot && !options.socket && hasCanvasPane(id)) {
+        captured = await captureCanvasPane(id, { escapes });
+      } else {
+        const reply = await requestFromCanvas(id, options, { type: "getSnapshot" });
+        if (reply.type === "error") throw new Error(describeErrorReply(reply));
+        captured = String((reply.data as { frame?: string } | undefined)?.frame ?? "");
+      }
     } catch (err) {
-      console.error(`Failed to get selection from canvas '${id}':`, err);
+      console.error(`Failed to capture canvas '${id}':`, (err as Error).message);
       process.exit(1);
     }
+
+    // Panes are captured down to their last row, blank or not
+    captured = captured.replace(/\s+$/, "");
+    if (options.html) {
+      process.stdout.write(ansiToHtml(captured));
+    } else {
+      console.log(escapes ? captured : stripAnsi(captured));
+    }
   });
 
+canvasCommand("info <id>")
+  .description("Show the protocol version, scenario and supported messages of a running canvas")
+  .action(async (id: string, options: CanvasAddressOptions) => {
+    const { PROTOCOL_VERSION } = await import("./ipc/types");
+
+    try {
+      const reply = await requestFromCanvas(id, options, { type: "hello", protocolVersion: PROTOCOL_VERSION });
+      if (reply.type === "error") throw new Error(describeErrorReply(reply));
+      const { type, requestId: _, ...info } = reply;
+      console.log(JSON.stringify(info, null, 2));
+    } catch (err) {
+      console.error(`Failed to get info from canvas '${id}':`, (err as Error).message);
+      process.exit(1);
+    }
+  });
+
+// Render rows as left-aligned columns under a header
+function printTable(header: string[], rows: string[][]): void {
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i]!.length)));
+  for (const row of [header, ...rows]) {
+    console.log(row.map((cell, i) => cell.padEnd(widths[i]!)).join("  ").trimEnd());
+  }
+}
+
+// running, exited with its status, or dead when it went without recording one
+function describeProcess(instance: RegisteredCanvas): string {
+  if (instance.exitCode !== undefined) return `exited ${instance.exitCode}`;
+  return instance.alive ? "running" : "dead";
+}
+
 program
-  .command("content <id>")
-  .description("Get the current content from a running document canvas")
-  .action(async (id: string) => {
-    const { getSocketPath } = await import("./ipc/types");
-    const socketPath = getSocketPath(id);
+  .command("list")
+  .description("List registered canvases and whether they are still running")
+  .option("--json", "Print the registry as JSON")
+  .action(async (options) => {
+    const { listCanvasInstances } = await import("./runtime");
+    const instances = listCanvasInstances();
+
+    if (options.json) {
+      console.log(JSON.stringify(instances, null, 2));
+      return;
+    }
+    if (instances.length === 0) {
+      console.log("No canvases registered");
+      return;
+    }
+    printTable(
+      ["ID", "KIND", "SCENARIO", "PID", "PANE", "STATUS", "STARTED", "SOCKET"],
+      instances.map((instance) => [
+        instance.id,
+        instance.kind,
+        instance.scenario,
+        String(instance.pid),
+        instance.paneId ?? "-",
+        describeProcess(instance),
+        new Date(instance.startedAt).toLocaleString(),
+        instance.socket,
+      ])
+    );
+  });
+
+canvasCommand("status <id>")
+  .description("Ping a canvas and report whether it is alive, with its current scenario")
+  .option("--json", "Print the status as JSON")
+  .action(async (id: string, options: CanvasAddressOptions & { json?: boolean }) => {
+    const { PROTOCOL_VERSION } = await import("./ipc/types");
+    const { getCanvasInstance } = await import("./runtime");
+    const instance = getCanvasInstance(id);
+    const address = await resolveCanvasAddress(id, options);
+
+    // A hello round trip proves the canvas is responsive, not just running
+    const startedAt = Date.now();
+    const probe: { welcome?: CanvasInfo; error?: string } = await requestFromCanvas(id, options, {
+      type: "hello",
+      protocolVersion: PROTOCOL_VERSION,
+    }).then(
+      (reply) =>
+        reply.type === "welcome" ? { welcome: reply as CanvasReply & CanvasInfo } : { error: String(reply.message) },
+      (err) => ({ error: (err as Error).message })
+    );
+    const latencyMs = Date.now() - startedAt;
+
+    const status = {
+      id,
+      responding: !!probe.welcome,
+      latencyMs: probe.welcome ? latencyMs : undefined,
+      error: probe.error,
+      kind: probe.welcome?.kind ?? instance?.kind,
+      scenario: probe.welcome?.scenario ?? instance?.scenario,
+      mode: probe.welcome?.mode,
+      registered: !!instance,
+      processAlive: instance?.alive,
+      exitCode: instance?.exitCode,
+      pid: instance?.pid,
+      paneId: instance?.paneId,
+      socket: address,
+      startedAt: instance?.startedAt,
+    };
+
+    if (options.json) {
+      console.log(JSON.stringify(status, null, 2));
+    } else {
+      const state = status.responding
+        ? `responding (${latencyMs}ms)`
+        : `not responding: ${status.error}`;
+      console.log(`Canvas '${id}': ${state}`);
+      if (status.kind) console.log(`  Kind:     ${status.kind}`);
+      if (status.scenario) console.log(`  Scenario: ${status.scenario}`);
+      if (status.mode) console.log(`  Mode:     ${status.mode}`);
+      if (instance) {
+        console.log(`  Process:  ${instance.pid} (${describeProcess(instance)})`);
+        if (instance.paneId) console.log(`  Pane:     ${instance.paneId}`);
+        console.log(`  Started:  ${new Date(instance.startedAt).toLocaleString()}`);
+      } else {
+        console.log("  Not in the registry");
+      }
+      console.log(`  Socket:   ${address}`);
+    }
+    process.exit(status.responding ? 0 : 1);
+  });
+
+
+// Exit status of wait and spawn --wait, one per way a canvas can finish
+const WAIT_EXIT_CODES = { selected: 0, error: 1, cancelled: 2, timeout: 3 } as const;
 
+// Print how the canvas finished as JSON and exit with the matching status
+function reportOutcome(outcome: CanvasOutcome): never {
+  console.log(JSON.stringify(outcome));
+  process.exit(WAIT_EXIT_CODES[outcome.status]);
+}
+
+async function waitForCanvas(
+  id: string,
+  address: string,
+  token: string | undefined,
+  timeoutMs?: number
+): Promise<never> {
+  const { waitForCanvasResult } = await import("./ipc/request");
+  const { waitForCanvasExit } = await import("./runtime");
+  const outcome = await waitForCanvasResult(address, {
+    token: token ?? process.env.CANVAS_TOKEN,
+    timeoutMs,
+  });
+  // A canvas that went away without a result may have recorded why
+  if (outcome.status === "error") {
+    const exitCode = await waitForCanvasExit(id);
+    if (exitCode !== undefined) outcome.exitCode = exitCode;
+  }
+  reportOutcome(outcome);
+}
+
+canvasCommand("wait <id>")
+  .description("Block until the user selects or cancels in a canvas; exit 0 selected, 1 error, 2 cancelled, 3 timeout")
+  .option("--timeout <ms>", "Give up after this long (default: wait forever)")
+  .action(async (id: string, options: CanvasAddressOptions & { timeout?: string }) => {
+    const timeoutMs = options.timeout === undefined ? undefined : parseTimeoutOption(options.timeout);
+    await waitForCanvas(id, await resolveCanvasAddress(id, options), options.token, timeoutMs);
+  });
+
+canvasCommand("subscribe <id> <topics...>")
+  .description("Stream UI events from a running canvas as JSON lines until it closes")
+  .action(async (id: string, topics: string[], options: CanvasAddressOptions) => {
     try {
-      let resolved = false;
-      const result = await new Promise<string>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          if (!resolved) {
-            resolved = true;
-            reject(new Error("Timeout waiting for response"));
-          }
-        }, 2000);
-
-        Bun.connect({
-          unix: socketPath,
-          socket: {
-            data(socket, data) {
-              if (resolved) return;
-              clearTimeout(timeout);
-              resolved = true;
-              const response = JSON.parse(data.toString().trim());
-              if (response.type === "content") {
-                resolve(JSON.stringify(response.data));
-              } else {
-                resolve(JSON.stringify(null));
-              }
-              socket.end();
-            },
-            open(socket) {
-              const msg = JSON.stringify({ type: "getContent" });
-              socket.write(msg + "\n");
-            },
-            close() {
-              if (!resolved) {
-                resolved = true;
-                clearTimeout(timeout);
-                resolve(JSON.stringify(null));
-              }
-            },
-            error(socket, error) {
-              if (!resolved) {
-                resolved = true;
-                clearTimeout(timeout);
-                reject(error);
-              }
-            },
-          },
-        });
+      const session = await openSession(id, options);
+      session.onMessage((msg) => {
+        if (msg.type === "event") {
+          console.log(JSON.stringify({ topic: msg.topic, data: msg.data }));
+        }
       });
-      console.log(result);
+      const reply = await session.request({ type: "subscribe", topics });
+      if (reply.type === "error") {
+        console.error(`Canvas '${id}' rejected the subscription: ${describeErrorReply(reply)}`);
+        process.exit(1);
+      }
+      await session.closed;
+      process.exit(0);
     } catch (err) {
-      console.error(`Failed to get content from canvas '${id}':`, err);
+      console.error(`Failed to subscribe to canvas '${id}':`, (err as Error).message);
       process.exit(1);
     }
   });
 
-program
-  .command("wandb-viewstate <id>")
+canvasCommand("wandb-viewstate <id>")
   .description("Get the current view state from a running wandb canvas")
-  .action(async (id: string) => {
-    const { getSocketPath } = await import("./ipc/types");
-    const socketPath = getSocketPath(id);
+  .action(async (id: string, options: CanvasAddressOptions) => {
+    const { PROTOCOL_VERSION } = await import("./ipc/types");
+    const address = await resolveCanvasAddress(id, options);
 
+    let session;
     try {
-      let resolved = false;
-      const result = await new Promise<string>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          if (!resolved) {
-            resolved = true;
-            reject(new Error("Timeout waiting for response"));
-          }
-        }, 5000);
-
-        Bun.connect({
-          unix: socketPath,
-          socket: {
-            data(socket, data) {
-              if (resolved) return;
-              clearTimeout(timeout);
-              resolved = true;
-              const response = JSON.parse(data.toString().trim());
-              if (response.type === "viewState") {
-                resolve(JSON.stringify(response.data, null, 2));
-              } else {
-                resolve(JSON.stringify({ error: "Unexpected response type", type: response.type }));
-              }
-              socket.end();
-            },
-            open(socket) {
-              const msg = JSON.stringify({ type: "getViewState" });
-              socket.write(msg + "\n");
-            },
-            close() {
-              if (!resolved) {
-                resolved = true;
-                clearTimeout(timeout);
-                resolve(JSON.stringify({ error: "Connection closed" }));
-              }
-            },
-            error(socket, error) {
-              if (!resolved) {
-                resolved = true;
-                clearTimeout(timeout);
-                reject(error);
-              }
-            },
-          },
-        });
-      });
-      console.log(result);
+      session = await openSession(id, options);
+    } catch (err) {
+      // The wandb canvas connects out to its controller, so nothing may be listening here
+      console.error(`Failed to get view state from wandb canvas '${id}':`, `No canvas is listening on ${address} (${(err as Error).message})`);
+      process.exit(1);
+    }
+
+    try {
+      // Ask for the view state only once the canvas says it can answer
+      const welcome = await session.request({ type: "hello", protocolVersion: PROTOCOL_VERSION }, 5000);
+      if (!(welcome.capabilities as string[] | undefined)?.includes("getViewState")) {
+        console.log(JSON.stringify({ error: "Canvas does not support getViewState", kind: welcome.kind }));
+        process.exitCode = 1;
+        return;
+      }
+      const reply = await session.request({ type: "getViewState" }, 5000);
+      if (reply.type === "viewState") {
+        console.log(JSON.stringify(reply.data, null, 2));
+      } else if (reply.type === "error") {
+        console.log(JSON.stringify({ error: reply.message, code: reply.code }));
+        process.exitCode = 1;
+      } else {
+        console.log(JSON.stringify({ error: "Unexpected response type", type: reply.type }));
+        process.exitCode = 1;
+      }
     } catch (err) {
-      console.error(`Failed to get view state from wandb canvas '${id}':`, err);
+      console.error(`Failed to get view state from wandb canvas '${id}':`, (err as Error).message);
       process.exit(1);
+    } finally {
+      session.close();
     }
   });
 
-program
-  .command("wandb-sendkeys <id> <keys>")
+canvasCommand("wandb-sendkeys <id> <keys>")
   .description("Send keystrokes to a running wandb canvas (forwarded to Leet)")
-  .action(async (id: string, keys: string) => {
-    const { getSocketPath } = await import("./ipc/types");
-    const socketPath = getSocketPath(id);
+  .action(async (id: string, keys: string, options: CanvasAddressOptions) => {
+    await wandbRequest(id, options, { type: "sendKeys", keys }, `Sent keys '${keys}' to wandb canvas '${id}'`, "send keys to");
+  });
 
+canvasCommand("wandb-focus <id> <pane>")
+  .description("Move the keyboard focus to a wandb canvas's Leet pane or back to the canvas (pane: leet or canvas)")
+  .action(async (id: string, pane: string, options: CanvasAddressOptions) => {
+    if (pane !== "leet" && pane !== "canvas") {
+      console.error(`Unknown pane '${pane}' (expected leet or canvas)`);
+      process.exit(1);
+    }
+    const type = pane === "leet" ? "focusLeet" : "focusCanvas";
+    await wandbRequest(id, options, { type }, `Focused the ${pane} pane of wandb canvas '${id}'`, "focus");
+  });
+
+// Send a wandb request and wait for its reply, exiting with the canvas's error if it fails
+async function wandbRequest(
+  id: string,
+  options: CanvasAddressOptions,
+  message: { type: string; [key: string]: unknown },
+  done: string,
+  action: string
+): Promise<void> {
+  try {
+    const session = await openSession(id, options);
+    let reply;
     try {
-      await Bun.connect({
-        unix: socketPath,
-        socket: {
-          data() {},
-          open(socket) {
-            const msg = JSON.stringify({ type: "sendKeys", keys });
-            socket.write(msg + "\n");
-            socket.end();
-          },
-          close() {},
-          error(socket, error) {
-            console.error("Socket error:", error);
-          },
-        },
-      });
-      console.log(`Sent keys '${keys}' to wandb canvas '${id}'`);
-    } catch (err) {
-      console.error(`Failed to send keys to wandb canvas '${id}':`, err);
+      reply = await session.request(message, 5000);
+    } finally {
+      session.close();
+    }
+    if (reply.type === "error") {
+      console.error(`Failed to ${action} wandb canvas '${id}':`, reply.message);
+      process.exit(1);
+    }
+    console.log(done);
+  } catch (err) {
+    console.error(`Failed to ${action} wandb canvas '${id}':`, (err as Error).message);
+    process.exit(1);
+  }
+}
+
+// ============================================
+// Pane Commands
+// ============================================
+
+// Run a pane control, exiting with its error if it fails
+async function paneAction(action: () => Promise<void>, done: string): Promise<void> {
+  try {
+    await action();
+    console.log(done);
+  } catch (err) {
+    console.error((err as Error).message);
+    process.exit(1);
+  }
+}
+
+// Columns or rows, or a percentage of the window
+function parsePaneSize(flag: string, value: string | undefined): string | undefined {
+  if (value === undefined || /^\d+%?$/.test(value)) return value;
+  console.error(`Invalid ${flag} '${value}' (expected cells, or a percentage such as 60%)`);
+  process.exit(1);
+}
+
+program
+  .command("focus <id>")
+  .description("Move the keyboard focus to a canvas's pane")
+  .action(async (id: string) => {
+    const { focusCanvasPane } = await import("./terminal");
+    await paneAction(() => focusCanvasPane(id), `Focused canvas '${id}'`);
+  });
+
+program
+  .command("zoom <id>")
+  .description("Toggle a canvas's pane filling its window (tmux and zellij)")
+  .action(async (id: string) => {
+    const { zoomCanvasPane } = await import("./terminal");
+    await paneAction(() => zoomCanvasPane(id), `Toggled zoom of canvas '${id}'`);
+  });
+
+program
+  .command("resize <id>")
+  .description("Resize a canvas's pane (tmux)")
+  .option("--width <size>", "Width in columns, or a percentage of the window (e.g. 60%)")
+  .option("--height <size>", "Height in rows, or a percentage of the window")
+  .action(async (id: string, options: { width?: string; height?: string }) => {
+    const width = parsePaneSize("--width", options.width);
+    const height = parsePaneSize("--height", options.height);
+    if (!width && !height) {
+      console.error("resize needs --width, --height or both");
       process.exit(1);
     }
+    const { resizeCanvasPane } = await import("./terminal");
+    await paneAction(() => resizeCanvasPane(id, { width, height }), `Resized canvas '${id}'`);
+  });
+
+program
+  .command("swap <id> <otherId>")
+  .description("Swap the panes two canvases are shown in (tmux)")
+  .action(async (id: string, otherId: string) => {
+    const { swapCanvasPanes } = await import("./terminal");
+    await paneAction(() => swapCanvasPanes(id, otherId), `Swapped canvases '${id}' and '${otherId}'`);
   });
 
 // ============================================
@@ -308,14 +833,14 @@ program
 
 program
   .command("leet [runDir]")
-  .description("Spawn wandb leet directly in a tmux pane (simple mode)")
+  .description("Spawn wandb leet directly in a tmux, screen or zellij pane (simple mode)")
   .option("--capture", "Capture and print the leet output after 3 seconds")
   .action(async (runDir?: string, options?: { capture?: boolean }) => {
     const { detectTerminal, spawnLeetPane, captureLeetPane } = await import("./terminal");
     const env = detectTerminal();
 
-    if (!env.inTmux) {
-      console.error("Error: leet requires tmux. Please run inside a tmux session.");
+    if (!env.multiplexer) {
+      console.error("Error: leet requires tmux, screen or zellij. Please run inside a session.");
       process.exit(1);
     }
 
@@ -0,0 +1,51 @@
+// Config Formats - the file formats a canvas config can be written in
+// JSON is the default; YAML and JSON5 are easier to write by hand, and a
+// Markdown file with frontmatter is the natural way to write a document.
+
+import { extname } from "path";
+import { YAML } from "bun";
+import JSON5 from "json5";
+import { markdownToDocumentConfig } from "./frontmatter";
+
+export type ConfigFormat = "json" | "json5" | "yaml" | "markdown";
+
+export const CONFIG_FORMATS: ConfigFormat[] = ["json", "json5", "yaml", "markdown"];
+
+const EXTENSIONS: Record<string, ConfigFormat> = {
+  ".json": "json",
+  ".json5": "json5",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+  ".md": "markdown",
+  ".markdown": "markdown",
+};
+
+// Kinds whose config can be written as Markdown
+const MARKDOWN_KINDS = ["document"];
+
+export function isConfigFormat(value: string): value is ConfigFormat {
+  return (CONFIG_FORMATS as string[]).includes(value);
+}
+
+// The format a file's extension implies; unknown extensions are read as JSON
+export function formatFromPath(path: string): ConfigFormat {
+  return EXTENSIONS[extname(path).toLowerCase()] ?? "json";
+}
+
+export function supportsMarkdown(kind: string): boolean {
+  return MARKDOWN_KINDS.includes(kind);
+}
+
+// Parse config text; throws SyntaxError with the parser's message
+export function parseConfigText(text: string, format: ConfigFormat): unknown {
+  switch (format) {
+    case "json":
+      return JSON.parse(text);
+    case "json5":
+      return JSON5.parse(text);
+    case "yaml":
+      return YAML.parse(text);
+    case "markdown":
+      return markdownToDocumentConfig(text);
+  }
+}
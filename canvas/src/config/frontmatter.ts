@@ -0,0 +1,42 @@
+// Frontmatter Markdown - document configs written as plain .md files
+// An optional YAML block between --- lines at the top supplies the document's
+// settings (title, readOnly, and from/to/cc/subject for emails); everything
+// after it becomes the content.
+
+import { YAML } from "bun";
+
+export interface Frontmatter {
+  data: Record<string, unknown>;
+  body: string;
+}
+
+const FRONTMATTER = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+export function splitFrontmatter(text: string): Frontmatter {
+  const match = FRONTMATTER.exec(text);
+  if (!match) return { data: {}, body: text };
+
+  const data = YAML.parse(match[1] ?? "") ?? {};
+  if (typeof data !== "object" || Array.isArray(data)) {
+    throw new SyntaxError("Frontmatter must be a YAML mapping");
+  }
+  return { data: data as Record<string, unknown>, body: text.slice(match[0].length) };
+}
+
+// Email fields that hold address lists; a single address may be written bare
+const ADDRESS_LISTS = ["to", "cc", "bcc"];
+
+// A document (or email) config from a Markdown file; the schema checks the
+// fields afterwards like any other config
+export function markdownToDocumentConfig(text: string): Record<string, unknown> {
+  const { data, body } = splitFrontmatter(text);
+  if ("content" in data) {
+    throw new SyntaxError("Frontmatter can't set content; the Markdown body is the content");
+  }
+
+  const config: Record<string, unknown> = { ...data, content: body };
+  for (const key of ADDRESS_LISTS) {
+    if (typeof config[key] === "string") config[key] = [config[key]];
+  }
+  return config;
+}
@@ -0,0 +1,3 @@
+// Config module exports
+export * from "./formats";
+export * from "./frontmatter";
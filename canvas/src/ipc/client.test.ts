@@ -0,0 +1,157 @@
+// Reconnecting client tests: backoff timing, and a real socket whose server
+// goes away and comes back
+
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { backoffDelay, connectWithReconnect, type ClientStatus, type ReconnectingClient } from "./client";
+import { createIPCServer, type IPCServer } from "./server";
+
+let dir: string;
+let socketPath: string;
+let server: IPCServer<unknown> | null = null;
+let client: ReconnectingClient<unknown> | null = null;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "canvas-client-test-"));
+});
+
+afterEach(() => {
+  client?.close();
+  server?.close();
+  client = server = null;
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// A server that records what it receives; stands in for the controller
+async function startServer(received: unknown[] = []) {
+  server = await createIPCServer<unknown, unknown>({
+    socketPath,
+    onMessage: (msg) => received.push(msg),
+  });
+  return received;
+}
+
+// Resolve once check() holds, polling every 10ms
+async function until(check: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await Bun.sleep(10);
+  }
+}
+
+describe("backoffDelay", () => {
+  test("doubles from the initial delay, within 20% jitter", () => {
+    for (const [attempt, base] of [[0, 100], [1, 200], [2, 400], [5, 3200]] as const) {
+      for (let i = 0; i < 50; i++) {
+        const delay = backoffDelay(attempt);
+        expect(delay).toBeGreaterThanOrEqual(base * 0.8);
+        expect(delay).toBeLessThanOrEqual(base * 1.2);
+      }
+    }
+  });
+
+  test("caps at the maximum delay", () => {
+    expect(backoffDelay(30)).toBeLessThanOrEqual(6000);
+    expect(backoffDelay(30, { maxDelayMs: 1000 })).toBeLessThanOrEqual(1200);
+  });
+
+  test("takes its own initial delay and factor", () => {
+    const delay = backoffDelay(2, { initialDelayMs: 10, factor: 3 });
+    expect(delay).toBeGreaterThanOrEqual(72);
+    expect(delay).toBeLessThanOrEqual(108);
+  });
+});
+
+describe("connectWithReconnect", () => {
+  test("gives up after maxRetries without sleeping after the last attempt", async () => {
+    socketPath = join(dir, "nobody.sock");
+    const started = Date.now();
+    const connecting = connectWithReconnect({
+      socketPath,
+      onMessage: () => {},
+      onDisconnect: () => {},
+      maxRetries: 2,
+      backoff: { initialDelayMs: 300 },
+    });
+
+    await expect(connecting).rejects.toThrow();
+    // One backoff of about 300ms between the two attempts, none after
+    expect(Date.now() - started).toBeLessThan(600);
+  });
+
+  test("reconnects when the server goes away and comes back", async () => {
+    socketPath = join(dir, "restart.sock");
+    await startServer();
+    const statuses: ClientStatus[] = [];
+    let connects = 0;
+    let disconnects = 0;
+    client = await connectWithReconnect<unknown, unknown>({
+      socketPath,
+      heartbeat: false,
+      backoff: { initialDelayMs: 20, maxDelayMs: 50 },
+      onMessage: () => {},
+      onConnect: () => connects++,
+      onDisconnect: () => disconnects++,
+      onStatusChange: (status) => statuses.push(status),
+    });
+    expect(client.status()).toBe("connected");
+
+    server!.close();
+    await until(() => client!.status() === "reconnecting");
+    expect(client.isConnected()).toBe(false);
+    expect(disconnects).toBe(1);
+
+    const received = await startServer();
+    await until(() => client!.status() === "connected");
+    client.send({ type: "ready" });
+    await until(() => received.length > 0);
+
+    expect(received).toEqual([{ type: "ready" }]);
+    expect(connects).toBe(2);
+    expect(statuses).toEqual(["connected", "reconnecting", "connected"]);
+  });
+
+  test("drops a silent peer after the heartbeat timeout and pings until then", async () => {
+    socketPath = join(dir, "silent.sock");
+    const received = await startServer();
+    const statuses: ClientStatus[] = [];
+    client = await connectWithReconnect<unknown, unknown>({
+      socketPath,
+      heartbeat: { intervalMs: 50, timeoutMs: 200 },
+      onMessage: () => {},
+      onDisconnect: () => {},
+      onStatusChange: (status) => statuses.push(status),
+    });
+
+    // The server never answers, so the client gives up on it and redials
+    await until(() => statuses.includes("reconnecting"));
+    expect(received).toContainEqual({ type: "ping" });
+  });
+
+  test("stops reconnecting once closed", async () => {
+    socketPath = join(dir, "closed.sock");
+    await startServer();
+    const statuses: ClientStatus[] = [];
+    client = await connectWithReconnect<unknown, unknown>({
+      socketPath,
+      heartbeat: false,
+      backoff: { initialDelayMs: 20 },
+      onMessage: () => {},
+      onDisconnect: () => {},
+      onStatusChange: (status) => statuses.push(status),
+    });
+
+    client.close();
+    server!.close();
+    await startServer();
+    await Bun.sleep(100);
+    expect(statuses).toEqual(["connected", "closed"]);
+    expect(server!.clientCount()).toBe(0);
+  });
+});
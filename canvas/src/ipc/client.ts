@@ -1,73 +1,63 @@
-// IPC Client - Canvas side
-// Connects to the controller's Unix domain socket
+// IPC Client - Connecting side
+// Connects to a peer's Unix socket, TCP port or WebSocket (see transport.ts).
+// Used by canvases in "connect" mode to reach their controller, and by
+// controllers talking to a listening canvas.
+// TIn/TOut default to the canvas's point of view.
 
-import type { ControllerMessage, CanvasMessage } from "./types";
-import type { Socket } from "bun";
+import { HEARTBEAT_INTERVAL_MS, HEARTBEAT_TIMEOUT_MS, type ControllerMessage, type CanvasMessage } from "./types";
+import { createMessageDecoder, encodeMessage } from "./framing";
+import { connect } from "./transport";
 
-export interface IPCClientOptions {
+export interface IPCClientOptions<TIn = ControllerMessage> {
+  /** Socket path or transport URL (unix://, tcp://, ws://) */
   socketPath: string;
-  onMessage: (msg: ControllerMessage) => void;
+  onMessage: (msg: TIn) => void;
   onDisconnect: () => void;
   onError?: (error: Error) => void;
+  /** Called when the peer sends a frame that can't be decoded (defaults to onError) */
+  onInvalidMessage?: (error: Error) => void;
+  maxMessageBytes?: number;
 }
 
-export interface IPCClient {
-  send: (msg: CanvasMessage) => void;
+export interface IPCClient<TOut = CanvasMessage> {
+  send: (msg: TOut) => void;
   close: () => void;
   isConnected: () => boolean;
 }
 
-export async function connectToController(
-  options: IPCClientOptions
-): Promise<IPCClient> {
-  const { socketPath, onMessage, onDisconnect, onError } = options;
+export async function connectToController<TIn = ControllerMessage, TOut = CanvasMessage>(
+  options: IPCClientOptions<TIn>
+): Promise<IPCClient<TOut>> {
+  const { socketPath, onMessage, onDisconnect, onError, onInvalidMessage, maxMessageBytes } = options;
 
   let connected = false;
-  let buffer = "";
-
-  const socket = await Bun.connect({
-    unix: socketPath,
-    socket: {
-      open(socket) {
-        connected = true;
-      },
+  const decoder = createMessageDecoder<TIn>({
+    onMessage,
+    onError: onInvalidMessage ?? onError,
+    maxMessageBytes,
+  });
 
-      data(socket, data) {
-        // Accumulate data and parse complete JSON messages
-        buffer += data.toString();
-
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          if (line.trim()) {
-            try {
-              const msg = JSON.parse(line) as ControllerMessage;
-              onMessage(msg);
-            } catch (e) {
-              onError?.(new Error(`Failed to parse message: ${line}`));
-            }
-          }
-        }
-      },
+  const socket = await connect(socketPath, {
+    data(socket, data) {
+      decoder.push(data);
+    },
 
-      close() {
-        connected = false;
-        onDisconnect();
-      },
+    close() {
+      connected = false;
+      onDisconnect();
+    },
 
-      error(socket, error) {
-        onError?.(error);
-      },
+    error(socket, error) {
+      onError?.(error);
     },
   });
 
   connected = true;
 
   return {
-    send(msg: CanvasMessage) {
+    send(msg: TOut) {
       if (connected) {
-        socket.write(JSON.stringify(msg) + "\n");
+        socket.write(encodeMessage(msg));
       }
     },
 
@@ -82,22 +72,198 @@ export async function connectToController(
   };
 }
 
-// Attempt to connect with retries
-export async function connectWithRetry(
-  options: IPCClientOptions,
+export interface BackoffOptions {
+  /** Delay before the second attempt; doubles (by factor) after each failure */
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  factor?: number;
+}
+
+// Delay before retry number `attempt` (0-based), with a little jitter so
+// several canvases don't all hammer a restarted controller at once
+export function backoffDelay(attempt: number, options: BackoffOptions = {}): number {
+  const { initialDelayMs = 100, maxDelayMs = 5000, factor = 2 } = options;
+  const delay = Math.min(maxDelayMs, initialDelayMs * factor ** attempt);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+// Attempt to connect with retries, backing off exponentially
+export async function connectWithRetry<TIn = ControllerMessage, TOut = CanvasMessage>(
+  options: IPCClientOptions<TIn>,
   maxRetries = 10,
   retryDelayMs = 100
-): Promise<IPCClient> {
+): Promise<IPCClient<TOut>> {
   let lastError: Error | null = null;
 
   for (let i = 0; i < maxRetries; i++) {
     try {
-      return await connectToController(options);
+      return await connectToController<TIn, TOut>(options);
     } catch (e) {
       lastError = e as Error;
-      await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
+      if (i < maxRetries - 1) {
+        await new Promise((resolve) => setTimeout(resolve, backoffDelay(i, { initialDelayMs: retryDelayMs })));
+      }
     }
   }
 
   throw lastError || new Error("Failed to connect to controller");
 }
+
+export interface HeartbeatOptions {
+  /** How often to ping the peer */
+  intervalMs?: number;
+  /** Silence after which the peer is considered gone */
+  timeoutMs?: number;
+}
+
+export interface ReconnectingClientOptions<TIn = ControllerMessage, TOut = CanvasMessage>
+  extends IPCClientOptions<TIn> {
+  /** Ping the peer and drop the connection when it goes quiet (false to disable) */
+  heartbeat?: HeartbeatOptions | false;
+  backoff?: BackoffOptions;
+  /** Attempts for the first connection before giving up (later reconnects never give up) */
+  maxRetries?: number;
+  /** Called after every successful (re)connect with a client bound to that connection */
+  onConnect?: (connection: IPCClient<TOut>) => void;
+  onStatusChange?: (status: ClientStatus) => void;
+}
+
+export type ClientStatus = "connecting" | "connected" | "reconnecting" | "closed";
+
+export interface ReconnectingClient<TOut = CanvasMessage> extends IPCClient<TOut> {
+  status: () => ClientStatus;
+}
+
+// A client that stays connected: it pings the peer, treats silence longer than
+// the heartbeat timeout as a dead connection, and reconnects with exponential
+// backoff until close() is called. onDisconnect fires for every lost connection.
+export async function connectWithReconnect<TIn = ControllerMessage, TOut = CanvasMessage>(
+  options: ReconnectingClientOptions<TIn, TOut>
+): Promise<ReconnectingClient<TOut>> {
+  const {
+    heartbeat = {},
+    backoff,
+    maxRetries = 10,
+    onConnect,
+    onStatusChange,
+    onMessage,
+    onDisconnect,
+    ...clientOptions
+  } = options;
+  const heartbeatOptions =
+    heartbeat === false
+      ? null
+      : { intervalMs: HEARTBEAT_INTERVAL_MS, timeoutMs: HEARTBEAT_TIMEOUT_MS, ...heartbeat };
+
+  let current: IPCClient<TOut> | null = null;
+  let status: ClientStatus = "connecting";
+  let closed = false;
+  // Bumped whenever a connection is dropped, so late events from it are ignored
+  let generation = 0;
+  let lastReceived = 0;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  let lastError: Error | null = null;
+
+  const setStatus = (next: ClientStatus) => {
+    if (status === next) return;
+    status = next;
+    onStatusChange?.(next);
+  };
+
+  const stopHeartbeat = () => {
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+  };
+
+  const startHeartbeat = () => {
+    if (!heartbeatOptions) return;
+    heartbeatTimer = setInterval(() => {
+      if (Date.now() - lastReceived > heartbeatOptions.timeoutMs) {
+        lose();
+      } else {
+        current?.send({ type: "ping" } as TOut);
+      }
+    }, heartbeatOptions.intervalMs);
+  };
+
+  const open = async () => {
+    const connection = ++generation;
+    const client = await connectToController<TIn, TOut>({
+      ...clientOptions,
+      onMessage: (msg) => {
+        if (connection !== generation) return;
+        lastReceived = Date.now();
+        onMessage(msg);
+      },
+      onDisconnect: () => {
+        if (connection === generation) lose();
+      },
+    });
+
+    if (closed || connection !== generation) {
+      client.close();
+      return;
+    }
+    current = client;
+    lastReceived = Date.now();
+    startHeartbeat();
+    setStatus("connected");
+    onConnect?.(client);
+  };
+
+  const attempt = async (limit: number): Promise<boolean> => {
+    for (let i = 0; i < limit && !closed; i++) {
+      try {
+        await open();
+        return true;
+      } catch (e) {
+        lastError = e as Error;
+        if (i < limit - 1) {
+          await new Promise((resolve) => setTimeout(resolve, backoffDelay(i, backoff)));
+        }
+      }
+    }
+    return false;
+  };
+
+  function lose() {
+    generation++;
+    stopHeartbeat();
+    const lost = current;
+    current = null;
+    lost?.close();
+    if (closed) return;
+    setStatus("reconnecting");
+    onDisconnect();
+    void attempt(Infinity);
+  }
+
+  if (!(await attempt(maxRetries))) {
+    throw lastError || new Error("Failed to connect to controller");
+  }
+
+  return {
+    send(msg: TOut) {
+      current?.send(msg);
+    },
+
+    close() {
+      closed = true;
+      generation++;
+      stopHeartbeat();
+      current?.close();
+      current = null;
+      setStatus("closed");
+    },
+
+    isConnected() {
+      return current?.isConnected() ?? false;
+    },
+
+    status() {
+      return status;
+    },
+  };
+}
@@ -0,0 +1,83 @@
+// Listen-mode connection tests: controllers that go quiet are dropped
+
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { connectToController, type IPCClient } from "./client";
+import { openConnection, type IPCConnection } from "./connection";
+import type { ConnectionStatus } from "./types";
+
+let dir: string;
+let connection: IPCConnection | null = null;
+let controller: IPCClient<unknown> | null = null;
+let pinger: ReturnType<typeof setInterval> | undefined;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "canvas-connection-test-"));
+});
+
+afterEach(() => {
+  clearInterval(pinger);
+  controller?.close();
+  connection?.close();
+  controller = connection = null;
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// A controller that dials the canvas; gone settles once the canvas drops it
+async function connectController(socketPath: string, received: unknown[] = []) {
+  let dropped: () => void = () => {};
+  const gone = new Promise<void>((resolve) => (dropped = resolve));
+  controller = await connectToController<unknown, unknown>({
+    socketPath,
+    onMessage: (msg) => received.push(msg),
+    onDisconnect: () => dropped(),
+  });
+  return { gone };
+}
+
+// A listening canvas that answers pings, with a short heartbeat timeout
+async function listenWithTimeout(socketPath: string, statuses: ConnectionStatus[]) {
+  connection = await openConnection({
+    mode: "listen",
+    socketPath,
+    heartbeat: { timeoutMs: 200 },
+    onMessage: (msg, peer) => {
+      if (msg.type === "ping") peer.send({ type: "pong", requestId: msg.requestId });
+    },
+    onStatusChange: (status) => statuses.push(status),
+  });
+}
+
+describe("openConnection in listen mode", () => {
+  test("drops a controller that sends nothing and goes back to listening", async () => {
+    const socketPath = join(dir, "silent.sock");
+    const statuses: ConnectionStatus[] = [];
+    await listenWithTimeout(socketPath, statuses);
+
+    const { gone } = await connectController(socketPath);
+    await gone;
+
+    expect(statuses).toEqual(["listening", "connected", "listening"]);
+    expect(connection!.peerCount()).toBe(0);
+  });
+
+  test("keeps a controller that pings", async () => {
+    const socketPath = join(dir, "pinging.sock");
+    const statuses: ConnectionStatus[] = [];
+    const received: unknown[] = [];
+    await listenWithTimeout(socketPath, statuses);
+
+    await connectController(socketPath, received);
+    pinger = setInterval(() => controller!.send({ type: "ping" }), 50);
+    await Bun.sleep(600);
+
+    expect(statuses).toEqual(["listening", "connected"]);
+    expect(connection!.peerCount()).toBe(1);
+    expect(received).toContainEqual({ type: "pong" });
+  });
+});
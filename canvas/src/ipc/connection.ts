@@ -0,0 +1,162 @@
+// IPC Connection Manager - Canvas side
+// One interface over both topologies: in "listen" mode the canvas owns the
+// socket and controllers connect to it; in "connect" mode the canvas dials a
+// controller that is already listening. Either way the canvas sees peers.
+// A listening canvas can require a shared-secret token: a peer's first message
+// must then be a hello carrying it, or the peer is refused and dropped.
+// Either way a peer that goes quiet past the heartbeat timeout is dropped.
+
+import { createIPCServer, type IPCPeer } from "./server";
+import { connectWithReconnect, type ClientStatus, type HeartbeatOptions } from "./client";
+import { tokensMatch } from "./transport";
+import {
+  HEARTBEAT_TIMEOUT_MS,
+  type CanvasMessage,
+  type ConnectionStatus,
+  type ControllerMessage,
+  type IPCMode,
+} from "./types";
+
+export interface IPCConnectionOptions {
+  mode: IPCMode;
+  socketPath: string;
+  onMessage: (msg: ControllerMessage, peer: IPCPeer) => void;
+  onPeerConnect?: (peer: IPCPeer) => void;
+  onPeerDisconnect?: (peer: IPCPeer) => void;
+  onError?: (error: Error) => void;
+  /** Called when a peer sends a frame that can't be decoded */
+  onInvalidMessage?: (error: Error, peer: IPCPeer) => void;
+  onStatusChange?: (status: ConnectionStatus) => void;
+  /** Heartbeat settings; in listen mode only timeoutMs applies, to silent controllers */
+  heartbeat?: HeartbeatOptions | false;
+  /** Listen mode only: shared secret every peer must present in its hello */
+  token?: string;
+}
+
+export interface IPCConnection {
+  mode: IPCMode;
+  /** Send to every connected peer */
+  broadcast: (msg: CanvasMessage) => void;
+  peerCount: () => number;
+  close: () => void;
+}
+
+export async function openConnection(options: IPCConnectionOptions): Promise<IPCConnection> {
+  const {
+    mode,
+    socketPath,
+    onMessage,
+    onPeerConnect,
+    onPeerDisconnect,
+    onError,
+    onInvalidMessage,
+    onStatusChange,
+    heartbeat,
+    token,
+  } = options;
+
+  if (mode === "listen") {
+    // Peers only count once they are in: immediately, or after a valid hello
+    const admitted = new Set<IPCPeer>();
+    const admit = (peer: IPCPeer) => {
+      admitted.add(peer);
+      if (admitted.size === 1) onStatusChange?.("connected");
+      onPeerConnect?.(peer);
+    };
+
+    const server = await createIPCServer({
+      socketPath,
+      // Controllers ping every HEARTBEAT_INTERVAL_MS; a silent one is dropped
+      // through onClientDisconnect, which flips the status back to listening
+      heartbeatTimeoutMs: heartbeat === false ? undefined : (heartbeat?.timeoutMs ?? HEARTBEAT_TIMEOUT_MS),
+      onMessage: (msg, peer) => {
+        if (admitted.has(peer)) {
+          onMessage(msg, peer);
+          return;
+        }
+        if (msg?.type === "hello" && tokensMatch(token!, msg.token)) {
+          admit(peer);
+          onMessage(msg, peer);
+          return;
+        }
+        peer.send({
+          type: "error",
+          code: "unauthorized",
+          message: "Missing or invalid token: send the canvas's token in a hello message first",
+          requestId: msg?.requestId,
+        });
+        peer.close();
+      },
+      onClientConnect: (peer) => {
+        if (!token) admit(peer);
+      },
+      onClientDisconnect: (peer) => {
+        if (!admitted.delete(peer)) return;
+        if (admitted.size === 0) onStatusChange?.("listening");
+        onPeerDisconnect?.(peer);
+      },
+      onError,
+      onInvalidMessage: (error, peer) => {
+        if (admitted.has(peer)) onInvalidMessage?.(error, peer);
+      },
+    });
+    onStatusChange?.("listening");
+
+    return {
+      mode,
+      broadcast(msg: CanvasMessage) {
+        for (const peer of admitted) peer.send(msg);
+      },
+      peerCount() {
+        return admitted.size;
+      },
+      close: server.close,
+    };
+  }
+
+  // Connect mode: the controller is our only peer, replaced on every reconnect
+  let peer: IPCPeer | null = null;
+  const clientStatuses: Record<ClientStatus, ConnectionStatus> = {
+    connecting: "connecting",
+    connected: "connected",
+    reconnecting: "reconnecting",
+    closed: "disconnected",
+  };
+  onStatusChange?.("connecting");
+
+  const client = await connectWithReconnect<ControllerMessage, CanvasMessage>({
+    socketPath,
+    heartbeat,
+    onMessage: (msg) => {
+      if (peer) onMessage(msg, peer);
+    },
+    onConnect: (connection) => {
+      peer = { send: connection.send, close: connection.close };
+      onPeerConnect?.(peer);
+    },
+    onDisconnect: () => {
+      const lost = peer;
+      peer = null;
+      if (lost) onPeerDisconnect?.(lost);
+    },
+    onStatusChange: (status) => onStatusChange?.(clientStatuses[status]),
+    onError,
+    onInvalidMessage: (error) => {
+      if (peer) onInvalidMessage?.(error, peer);
+    },
+  });
+
+  return {
+    mode,
+    broadcast(msg: CanvasMessage) {
+      peer?.send(msg);
+    },
+    peerCount() {
+      return peer ? 1 : 0;
+    },
+    close() {
+      peer = null;
+      client.close();
+    },
+  };
+}
@@ -0,0 +1,121 @@
+// NDJSON framing tests: frames must come out whole however the stream is cut
+
+import { describe, expect, test } from "bun:test";
+import { createMessageDecoder, encodeMessage, type MessageDecoderOptions } from "./framing";
+
+// A decoder that records what it emits
+function collect(options: Partial<MessageDecoderOptions<unknown>> = {}) {
+  const messages: unknown[] = [];
+  const errors: string[] = [];
+  const decoder = createMessageDecoder({
+    ...options,
+    onMessage: (msg) => messages.push(msg),
+    onError: (error) => errors.push(error.message),
+  });
+  return { decoder, messages, errors };
+}
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe("encodeMessage", () => {
+  test("writes one line of JSON, escaping newlines inside strings", () => {
+    expect(encodeMessage({ type: "content", data: "a\nb" })).toBe('{"type":"content","data":"a\\nb"}\n');
+  });
+});
+
+describe("createMessageDecoder", () => {
+  test("joins a frame split across chunks", () => {
+    const { decoder, messages } = collect();
+    const frame = encodeMessage({ type: "update", config: { title: "Standup" } });
+
+    for (const chunk of [frame.slice(0, 5), frame.slice(5, 20), frame.slice(20)]) {
+      expect(messages).toEqual([]);
+      decoder.push(bytes(chunk));
+    }
+    expect(messages).toEqual([{ type: "update", config: { title: "Standup" } }]);
+  });
+
+  test("keeps a multibyte character split across chunks intact", () => {
+    const { decoder, messages, errors } = collect();
+    const frame = bytes(encodeMessage({ type: "content", data: "café 🎉" }));
+    // Cut inside the emoji's four bytes, then inside é's two
+    const emoji = frame.length - 5;
+    const eAcute = frame.indexOf(0xc3) + 1;
+
+    decoder.push(frame.slice(0, eAcute));
+    decoder.push(frame.slice(eAcute, emoji));
+    decoder.push(frame.slice(emoji));
+    expect(messages).toEqual([{ type: "content", data: "café 🎉" }]);
+    expect(errors).toEqual([]);
+  });
+
+  test("emits every frame in one chunk, in order", () => {
+    const { decoder, messages } = collect();
+    decoder.push(bytes(encodeMessage({ type: "ping" }) + encodeMessage({ type: "pong" }) + "\n" + encodeMessage({ n: 3 })));
+    expect(messages).toEqual([{ type: "ping" }, { type: "pong" }, { n: 3 }]);
+  });
+
+  test("reports bad JSON and carries on with the next frame", () => {
+    const { decoder, messages, errors } = collect();
+    decoder.push('{"type":\n{"type":"ping"}\n');
+    expect(errors).toEqual(['Failed to parse message: {"type":']);
+    expect(messages).toEqual([{ type: "ping" }]);
+  });
+
+  test.each(["null", "42", '"ping"', "true", "[1,2]"])("rejects the non-object frame %s", (frame) => {
+    const { decoder, messages, errors } = collect();
+    decoder.push(`${frame}\n{"type":"ping"}\n`);
+    expect(errors).toEqual([`Message is not a JSON object: ${frame}`]);
+    expect(messages).toEqual([{ type: "ping" }]);
+  });
+
+  test("drops a complete oversized frame", () => {
+    const { decoder, messages, errors } = collect({ maxMessageBytes: 32 });
+    decoder.push(encodeMessage({ data: "x".repeat(40) }) + encodeMessage({ type: "ping" }));
+    expect(errors).toEqual(["Message exceeds 32 bytes"]);
+    expect(messages).toEqual([{ type: "ping" }]);
+  });
+
+  test("discards an oversized frame as it streams in and resyncs at its newline", () => {
+    const { decoder, messages, errors } = collect({ maxMessageBytes: 32 });
+    decoder.push('{"data":"' + "x".repeat(30));
+    decoder.push("x".repeat(100));
+    decoder.push('x"}\n{"type":');
+    decoder.push('"ping"}\n');
+    expect(errors).toEqual(["Message exceeds 32 bytes"]);
+    expect(messages).toEqual([{ type: "ping" }]);
+  });
+
+  test("counts the size limit in bytes, not characters", () => {
+    const { decoder, messages, errors } = collect({ maxMessageBytes: 32 });
+    // 24 characters but 40 bytes
+    decoder.push(encodeMessage({ d: "é".repeat(16) }));
+    expect(errors).toEqual(["Message exceeds 32 bytes"]);
+    expect(messages).toEqual([]);
+  });
+
+  test("keeps interleaved peers' partial frames apart", () => {
+    const alice = collect();
+    const bob = collect();
+    const fromAlice = bytes(encodeMessage({ from: "alice", text: "ünïcode" }));
+    const fromBob = bytes(encodeMessage({ from: "bob", text: "plain" }));
+
+    // Alternate byte by byte, as two sockets' data callbacks might
+    for (let i = 0; i < Math.max(fromAlice.length, fromBob.length); i++) {
+      if (i < fromAlice.length) alice.decoder.push(fromAlice.slice(i, i + 1));
+      if (i < fromBob.length) bob.decoder.push(fromBob.slice(i, i + 1));
+    }
+    expect(alice.messages).toEqual([{ from: "alice", text: "ünïcode" }]);
+    expect(bob.messages).toEqual([{ from: "bob", text: "plain" }]);
+    expect([...alice.errors, ...bob.errors]).toEqual([]);
+  });
+
+  test("reset drops a partial frame", () => {
+    const { decoder, messages, errors } = collect();
+    decoder.push('{"type":"upd');
+    decoder.reset();
+    decoder.push('{"type":"ping"}\n');
+    expect(messages).toEqual([{ type: "ping" }]);
+    expect(errors).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+// IPC Framing - newline-delimited JSON over stream sockets
+// JSON.stringify never emits a raw newline, so a newline always ends a frame.
+// Each socket needs its own decoder: a chunk may end mid-message (or mid
+// UTF-8 character), and partial frames from different peers must never mix.
+
+// Frames larger than this are dropped rather than buffered forever
+export const MAX_MESSAGE_BYTES = 8 * 1024 * 1024;
+
+export function encodeMessage(msg: unknown): string {
+  return JSON.stringify(msg) + "\n";
+}
+
+export interface MessageDecoderOptions<T> {
+  onMessage: (msg: T) => void;
+  /** Called for frames that aren't JSON objects or exceed the size limit */
+  onError?: (error: Error) => void;
+  maxMessageBytes?: number;
+}
+
+export interface MessageDecoder {
+  push: (chunk: Uint8Array | string) => void;
+  reset: () => void;
+}
+
+export function createMessageDecoder<T = unknown>(
+  options: MessageDecoderOptions<T>
+): MessageDecoder {
+  const { onMessage, onError, maxMessageBytes = MAX_MESSAGE_BYTES } = options;
+
+  const textDecoder = new TextDecoder();
+  let buffer = "";
+  // Set while skipping the rest of an oversized frame
+  let discarding = false;
+
+  const handleFrame = (frame: string) => {
+    if (!frame.trim()) return;
+
+    if (Buffer.byteLength(frame) > maxMessageBytes) {
+      onError?.(new Error(`Message exceeds ${maxMessageBytes} bytes`));
+      return;
+    }
+
+    let msg: unknown;
+    try {
+      msg = JSON.parse(frame);
+    } catch {
+      onError?.(new Error(`Failed to parse message: ${frame.slice(0, 200)}`));
+      return;
+    }
+    // Handlers read fields off every message, so null, arrays and bare values stop here
+    if (typeof msg !== "object" || msg === null || Array.isArray(msg)) {
+      onError?.(new Error(`Message is not a JSON object: ${frame.slice(0, 200)}`));
+      return;
+    }
+    onMessage(msg as T);
+  };
+
+  return {
+    push(chunk: Uint8Array | string) {
+      buffer += typeof chunk === "string" ? chunk : textDecoder.decode(chunk, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const frame = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+        if (discarding) {
+          discarding = false;
+          continue;
+        }
+        handleFrame(frame);
+      }
+
+      // A string's length never exceeds its UTF-8 size, so this is a safe early cut-off
+      if (!discarding && buffer.length > maxMessageBytes) {
+        onError?.(new Error(`Message exceeds ${maxMessageBytes} bytes`));
+        discarding = true;
+      }
+      if (discarding) {
+        buffer = "";
+      }
+    },
+
+    reset() {
+      buffer = "";
+      discarding = false;
+    },
+  };
+}
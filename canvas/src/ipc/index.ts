@@ -1,4 +1,9 @@
 // IPC module exports
 export * from "./types";
+export * from "./framing";
 export * from "./server";
 export * from "./client";
+export * from "./connection";
+export * from "./patch";
+export * from "./transport";
+export * from "./request";
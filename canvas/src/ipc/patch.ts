@@ -0,0 +1,229 @@
+// Config Patches - partial updates for a canvas's live config
+// Supports JSON Merge Patch (RFC 7396) and JSON Patch (RFC 6902). Both return a
+// new value and never mutate their input: untouched branches keep their
+// identity, so React state and effects keyed on them don't change.
+
+export type PatchFormat = "merge" | "json-patch";
+
+export type JSONPatchOperation =
+  | { op: "add" | "replace" | "test"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "move" | "copy"; from: string; path: string };
+
+type Container = Record<string, unknown> | unknown[];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === "object" && value !== null;
+}
+
+// ============================================
+// JSON Merge Patch
+// ============================================
+
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(patch)) return patch;
+
+  const result: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+// ============================================
+// JSON Patch
+// ============================================
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON pointer "${pointer}": must be empty or start with "/"`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function arrayIndex(array: unknown[], token: string, pointer: string, allowEnd: boolean): number {
+  if (allowEnd && token === "-") return array.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new Error(`Invalid array index "${token}" in ${pointer}`);
+  }
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new Error(`Array index ${index} out of bounds in ${pointer}`);
+  }
+  return index;
+}
+
+function getChild(node: Container, token: string, pointer: string): unknown {
+  if (Array.isArray(node)) {
+    return node[arrayIndex(node, token, pointer, false)];
+  }
+  if (!Object.prototype.hasOwnProperty.call(node, token)) {
+    throw new Error(`Path not found: ${pointer}`);
+  }
+  return node[token];
+}
+
+function getAt(document: unknown, pointer: string): unknown {
+  let node = document;
+  for (const token of parsePointer(pointer)) {
+    if (!isContainer(node)) throw new Error(`Path not found: ${pointer}`);
+    node = getChild(node, token, pointer);
+  }
+  return node;
+}
+
+// Copy every container from the root down to the parent of pointer, then let
+// edit change that (copied) parent in place
+function editParent(
+  document: unknown,
+  pointer: string,
+  edit: (parent: Container, token: string) => void
+): unknown {
+  const tokens = parsePointer(pointer);
+  const last = tokens.pop() ?? "";
+  if (!isContainer(document)) throw new Error(`Path not found: ${pointer}`);
+
+  const root: Container = Array.isArray(document) ? [...document] : { ...document };
+  let node = root;
+  for (const token of tokens) {
+    const child = getChild(node, token, pointer);
+    if (!isContainer(child)) throw new Error(`Path not found: ${pointer}`);
+    const copy: Container = Array.isArray(child) ? [...child] : { ...child };
+    if (Array.isArray(node)) {
+      node[Number(token)] = copy;
+    } else {
+      node[token] = copy;
+    }
+    node = copy;
+  }
+  edit(node, last);
+  return root;
+}
+
+function add(document: unknown, pointer: string, value: unknown): unknown {
+  if (pointer === "") return value;
+  return editParent(document, pointer, (parent, token) => {
+    if (Array.isArray(parent)) {
+      parent.splice(arrayIndex(parent, token, pointer, true), 0, value);
+    } else {
+      parent[token] = value;
+    }
+  });
+}
+
+function remove(document: unknown, pointer: string): unknown {
+  if (pointer === "") throw new Error("Cannot remove the whole config");
+  return editParent(document, pointer, (parent, token) => {
+    if (Array.isArray(parent)) {
+      parent.splice(arrayIndex(parent, token, pointer, false), 1);
+    } else {
+      getChild(parent, token, pointer);
+      delete parent[token];
+    }
+  });
+}
+
+function replace(document: unknown, pointer: string, value: unknown): unknown {
+  if (pointer === "") return value;
+  return editParent(document, pointer, (parent, token) => {
+    if (Array.isArray(parent)) {
+      parent[arrayIndex(parent, token, pointer, false)] = value;
+    } else {
+      getChild(parent, token, pointer);
+      parent[token] = value;
+    }
+  });
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!isContainer(a) || !isContainer(b) || Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every((key) =>
+    Object.prototype.hasOwnProperty.call(b, key) &&
+    deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+function checkOperation(operation: unknown, index: number): JSONPatchOperation {
+  const op = operation as Record<string, unknown>;
+  if (!isPlainObject(op) || typeof op.path !== "string") {
+    throw new Error(`Patch operation ${index} needs an op and a string path`);
+  }
+  switch (op.op) {
+    case "add":
+    case "replace":
+    case "test":
+      if (!("value" in op)) throw new Error(`Patch operation ${index} (${op.op}) needs a value`);
+      break;
+    case "move":
+    case "copy":
+      if (typeof op.from !== "string") throw new Error(`Patch operation ${index} (${op.op}) needs a string from`);
+      break;
+    case "remove":
+      break;
+    default:
+      throw new Error(`Patch operation ${index} has unknown op ${JSON.stringify(op.op)}`);
+  }
+  return op as JSONPatchOperation;
+}
+
+// Operations apply in order; if any fails, the whole patch fails
+export function applyJSONPatch(document: unknown, operations: unknown[]): unknown {
+  let result = document;
+  operations.forEach((operation, index) => {
+    const op = checkOperation(operation, index);
+    switch (op.op) {
+      case "add":
+        result = add(result, op.path, op.value);
+        break;
+      case "remove":
+        result = remove(result, op.path);
+        break;
+      case "replace":
+        result = replace(result, op.path, op.value);
+        break;
+      case "move": {
+        if (op.path.startsWith(`${op.from}/`)) {
+          throw new Error(`Cannot move ${op.from} into its own child ${op.path}`);
+        }
+        const value = getAt(result, op.from);
+        result = add(remove(result, op.from), op.path, value);
+        break;
+      }
+      case "copy":
+        result = add(result, op.path, getAt(result, op.from));
+        break;
+      case "test":
+        if (!deepEqual(getAt(result, op.path), op.value)) {
+          throw new Error(`Test failed at ${op.path || "the config root"}`);
+        }
+        break;
+    }
+  });
+  return result;
+}
+
+// An array is a JSON Patch document; anything else is a merge patch
+export function applyPatch(target: unknown, patch: unknown, format?: PatchFormat): unknown {
+  const resolved = format ?? (Array.isArray(patch) ? "json-patch" : "merge");
+  if (resolved === "json-patch") {
+    if (!Array.isArray(patch)) throw new Error("A JSON Patch must be an array of operations");
+    return applyJSONPatch(target, patch);
+  }
+  return applyMergePatch(target, patch);
+}
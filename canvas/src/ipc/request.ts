@@ -0,0 +1,227 @@
+// IPC Requests - Controller side request/reply over one connection
+// A session tags each request with a requestId and resolves with the reply
+// that carries it, so several requests (and pushed events) can share a socket.
+// Used by the CLI; any controller message type works, including canvas
+// extensions like getViewState. The session pings while open, since a
+// listening canvas drops controllers that go quiet.
+
+import { connect, type TransportSocket } from "./transport";
+import { createMessageDecoder, encodeMessage } from "./framing";
+import { createRequestId, HEARTBEAT_INTERVAL_MS, PROTOCOL_VERSION } from "./types";
+import { backoffDelay } from "./client";
+
+// Anything a canvas may send, including replies to extension messages
+export interface CanvasReply {
+  type: string;
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+export interface CanvasSessionOptions {
+  /** Shared secret, sent in a hello before anything else */
+  token?: string;
+  /** Default time to wait for a reply */
+  timeoutMs?: number;
+  /** How often to ping the canvas (0 to never) */
+  heartbeatIntervalMs?: number;
+}
+
+export interface CanvasSession {
+  /** Send a message and resolve with its reply (error replies resolve too) */
+  request: (message: { type: string; [key: string]: unknown }, timeoutMs?: number) => Promise<CanvasReply>;
+  /** Send a message without waiting for anything */
+  send: (message: { type: string; [key: string]: unknown }) => void;
+  /** See every message, including pushed events and uncorrelated replies */
+  onMessage: (handler: (message: CanvasReply) => void) => void;
+  /** Resolves once the connection closes, from either side */
+  closed: Promise<void>;
+  close: () => void;
+}
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 2000;
+
+interface Pending {
+  resolve: (reply: CanvasReply) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export async function openCanvasSession(
+  address: string,
+  options: CanvasSessionOptions = {}
+): Promise<CanvasSession> {
+  const { token, timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS, heartbeatIntervalMs = HEARTBEAT_INTERVAL_MS } = options;
+  const pending = new Map<string, Pending>();
+  const handlers: ((message: CanvasReply) => void)[] = [];
+  const authId = createRequestId();
+  // Set when the canvas refuses our token; fails everything after it
+  let failure: Error | null = null;
+  let markClosed: () => void = () => {};
+  const closed = new Promise<void>((resolve) => (markClosed = resolve));
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const settle = (requestId: string) => {
+    const entry = pending.get(requestId);
+    if (entry) {
+      clearTimeout(entry.timer);
+      pending.delete(requestId);
+    }
+    return entry;
+  };
+
+  const failAll = (error: Error) => {
+    failure ??= error;
+    for (const requestId of [...pending.keys()]) {
+      settle(requestId)?.reject(error);
+    }
+  };
+
+  const decoder = createMessageDecoder<CanvasReply>({
+    onMessage: (message) => {
+      if (message.type === "error" && message.code === "unauthorized") {
+        failAll(new Error(`${message.message} (unauthorized)`));
+        return;
+      }
+      if (message.requestId === authId) return;
+      if (message.requestId) settle(message.requestId)?.resolve(message);
+      for (const handler of handlers) handler(message);
+    },
+  });
+
+  const socket: TransportSocket = await connect(address, {
+    data(socket, data) {
+      decoder.push(data);
+    },
+    close() {
+      clearInterval(heartbeat);
+      failAll(new Error("Connection closed"));
+      markClosed();
+    },
+    error(socket, error) {
+      failAll(error);
+    },
+  });
+
+  const send = (message: Record<string, unknown>) => socket.write(encodeMessage(message));
+
+  if (token) {
+    send({ type: "hello", protocolVersion: PROTOCOL_VERSION, token, requestId: authId });
+  }
+  if (heartbeatIntervalMs > 0) {
+    heartbeat = setInterval(() => send({ type: "ping" }), heartbeatIntervalMs);
+  }
+
+  return {
+    request(message, requestTimeoutMs = timeoutMs) {
+      if (failure) return Promise.reject(failure);
+      const requestId = createRequestId();
+      return new Promise<CanvasReply>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          pending.delete(requestId);
+          reject(new Error(`Timeout waiting for a reply to ${message.type}`));
+        }, requestTimeoutMs);
+        pending.set(requestId, { resolve, reject, timer });
+        send({ ...message, requestId });
+      });
+    },
+
+    send,
+
+    onMessage(handler) {
+      handlers.push(handler);
+    },
+
+    closed,
+
+    close() {
+      clearInterval(heartbeat);
+      socket.end();
+    },
+  };
+}
+
+// One request on a fresh connection
+export async function sendCanvasRequest(
+  address: string,
+  message: { type: string; [key: string]: unknown },
+  options: CanvasSessionOptions = {}
+): Promise<CanvasReply> {
+  const session = await openCanvasSession(address, options);
+  try {
+    return await session.request(message);
+  } finally {
+    session.close();
+  }
+}
+
+// How an interactive canvas finished, as seen by a waiting controller
+export type CanvasOutcome =
+  | { status: "selected"; data: unknown }
+  | { status: "cancelled"; reason?: string }
+  | { status: "error"; message: string; exitCode?: number }
+  | { status: "timeout" };
+
+export interface WaitOptions extends CanvasSessionOptions {
+  /** Give up after this long (default: wait forever) */
+  timeoutMs?: number;
+  /** Keep retrying the connection this long, for canvases still starting up */
+  connectTimeoutMs?: number;
+}
+
+// Block until the canvas sends selected, cancelled or error. A canvas that
+// exits without saying either counts as an error.
+export async function waitForCanvasResult(address: string, options: WaitOptions = {}): Promise<CanvasOutcome> {
+  const { token, timeoutMs, connectTimeoutMs = 10000 } = options;
+  const deadline = timeoutMs === undefined ? Infinity : Date.now() + timeoutMs;
+  const connectDeadline = Math.min(deadline, Date.now() + connectTimeoutMs);
+
+  let session: CanvasSession | null = null;
+  for (let attempt = 0; !session; attempt++) {
+    try {
+      session = await openCanvasSession(address, { token });
+    } catch (e) {
+      if (Date.now() >= connectDeadline) {
+        if (Date.now() >= deadline) return { status: "timeout" };
+        return { status: "error", message: `No canvas is listening on ${address} (${(e as Error).message})` };
+      }
+      await new Promise((resolve) => setTimeout(resolve, backoffDelay(attempt, { maxDelayMs: 1000 })));
+    }
+  }
+
+  const connected = session;
+  try {
+    // Surfaces a refused token now rather than as an unexplained close
+    await connected.request({ type: "ping" });
+  } catch (e) {
+    connected.close();
+    return { status: "error", message: (e as Error).message };
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const outcome = await new Promise<CanvasOutcome>((resolve) => {
+    connected.onMessage((message) => {
+      switch (message.type) {
+        case "selected":
+          resolve({ status: "selected", data: message.data });
+          break;
+        case "cancelled":
+          resolve({ status: "cancelled", reason: message.reason as string | undefined });
+          break;
+        case "error":
+          // Errors about our own requests carry a requestId; the canvas's own don't
+          if (!message.requestId) {
+            resolve({ status: "error", message: String(message.message) });
+          }
+          break;
+      }
+    });
+    connected.closed.then(() => resolve({ status: "error", message: "Canvas closed without a result" }));
+    if (deadline !== Infinity) {
+      timer = setTimeout(() => resolve({ status: "timeout" }), deadline - Date.now());
+    }
+  });
+
+  clearTimeout(timer);
+  connected.close();
+  return outcome;
+}
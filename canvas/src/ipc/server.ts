@@ -1,84 +1,134 @@
-// IPC Server - Canvas side (for standalone CLI mode)
-// Listens on a Unix domain socket for controller commands
+// IPC Server - Listening side
+// Listens on a Unix socket, TCP port or WebSocket (see transport.ts). Used by
+// canvases in "listen" mode to accept controller commands, and by controllers
+// that wait for a canvas to connect.
+// TIn/TOut default to the canvas's point of view.
 
 import type { ControllerMessage, CanvasMessage } from "./types";
-import { unlinkSync, existsSync } from "fs";
+import { createMessageDecoder, encodeMessage, type MessageDecoder } from "./framing";
+import { listen, type TransportSocket } from "./transport";
 
-export interface IPCServerOptions {
+// A connected peer; replies sent through it go only to that socket
+export interface IPCPeer<TOut = CanvasMessage> {
+  send: (msg: TOut) => void;
+  /** Drop this peer's connection */
+  close: () => void;
+}
+
+export interface IPCServerOptions<TIn = ControllerMessage, TOut = CanvasMessage> {
+  /** Socket path or transport URL (unix://, tcp://, ws://) */
   socketPath: string;
-  onMessage: (msg: ControllerMessage) => void;
-  onClientConnect?: () => void;
-  onClientDisconnect?: () => void;
+  onMessage: (msg: TIn, peer: IPCPeer<TOut>) => void;
+  onClientConnect?: (peer: IPCPeer<TOut>) => void;
+  onClientDisconnect?: (peer: IPCPeer<TOut>) => void;
   onError?: (error: Error) => void;
+  /** Called when a peer sends a frame that can't be decoded (defaults to onError) */
+  onInvalidMessage?: (error: Error, peer: IPCPeer<TOut>) => void;
+  maxMessageBytes?: number;
+  /** Drop peers that send nothing for this long (they are expected to ping) */
+  heartbeatTimeoutMs?: number;
+  /** Called when a silent peer is dropped, just before onClientDisconnect */
+  onClientTimeout?: (peer: IPCPeer<TOut>) => void;
 }
 
-export interface IPCServer {
-  broadcast: (msg: CanvasMessage) => void;
+export interface IPCServer<TOut = CanvasMessage> {
+  broadcast: (msg: TOut) => void;
+  clientCount: () => number;
+  /** Where peers can reach the server, with the real port if 0 was requested */
+  address: string;
   close: () => void;
 }
 
-export async function createIPCServer(options: IPCServerOptions): Promise<IPCServer> {
-  const { socketPath, onMessage, onClientConnect, onClientDisconnect, onError } = options;
+export async function createIPCServer<TIn = ControllerMessage, TOut = CanvasMessage>(
+  options: IPCServerOptions<TIn, TOut>
+): Promise<IPCServer<TOut>> {
+  const {
+    socketPath,
+    onMessage,
+    onClientConnect,
+    onClientDisconnect,
+    onError,
+    onInvalidMessage,
+    maxMessageBytes,
+    heartbeatTimeoutMs,
+    onClientTimeout,
+  } = options;
 
-  // Remove existing socket file if it exists
-  if (existsSync(socketPath)) {
-    unlinkSync(socketPath);
-  }
+  // Each socket keeps its own decoder so partial frames never mix
+  const clients = new Map<
+    TransportSocket,
+    { peer: IPCPeer<TOut>; decoder: MessageDecoder; lastReceived: number }
+  >();
 
-  const clients = new Set<any>();
-  let buffer = "";
+  const listener = listen(socketPath, {
+    open(socket) {
+      const peer: IPCPeer<TOut> = {
+        send(msg: TOut) {
+          socket.write(encodeMessage(msg));
+        },
+        close() {
+          socket.end();
+        },
+      };
+      const decoder = createMessageDecoder<TIn>({
+        onMessage: (msg) => onMessage(msg, peer),
+        onError: (error) => (onInvalidMessage ? onInvalidMessage(error, peer) : onError?.(error)),
+        maxMessageBytes,
+      });
+      clients.set(socket, { peer, decoder, lastReceived: Date.now() });
+      onClientConnect?.(peer);
+    },
 
-  const server = Bun.listen({
-    unix: socketPath,
-    socket: {
-      open(socket) {
-        clients.add(socket);
-        onClientConnect?.();
-      },
+    data(socket, data) {
+      const client = clients.get(socket);
+      if (!client) return;
+      client.lastReceived = Date.now();
+      client.decoder.push(data);
+    },
 
-      data(socket, data) {
-        // Accumulate data and parse complete JSON messages
-        buffer += data.toString();
+    close(socket) {
+      const client = clients.get(socket);
+      clients.delete(socket);
+      if (client) {
+        onClientDisconnect?.(client.peer);
+      }
+    },
 
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
+    error(socket, error) {
+      onError?.(error);
+    },
+  });
 
-        for (const line of lines) {
-          if (line.trim()) {
-            try {
-              const msg = JSON.parse(line) as ControllerMessage;
-              onMessage(msg);
-            } catch (e) {
-              onError?.(new Error(`Failed to parse message: ${line}`));
-            }
+  const heartbeatTimer = heartbeatTimeoutMs
+    ? setInterval(() => {
+        const now = Date.now();
+        for (const [socket, client] of clients) {
+          if (now - client.lastReceived > heartbeatTimeoutMs) {
+            clients.delete(socket);
+            onClientTimeout?.(client.peer);
+            socket.end();
+            onClientDisconnect?.(client.peer);
           }
         }
-      },
-
-      close(socket) {
-        clients.delete(socket);
-        onClientDisconnect?.();
-      },
-
-      error(socket, error) {
-        onError?.(error);
-      },
-    },
-  });
+      }, Math.max(100, heartbeatTimeoutMs / 4))
+    : null;
 
   return {
-    broadcast(msg: CanvasMessage) {
-      const data = JSON.stringify(msg) + "\n";
-      for (const client of clients) {
-        client.write(data);
+    broadcast(msg: TOut) {
+      for (const { peer } of clients.values()) {
+        peer.send(msg);
       }
     },
 
+    clientCount() {
+      return clients.size;
+    },
+
+    address: listener.address,
+
     close() {
-      server.stop();
-      if (existsSync(socketPath)) {
-        unlinkSync(socketPath);
-      }
+      if (heartbeatTimer) clearInterval(heartbeatTimer);
+      listener.stop();
     },
   };
 }
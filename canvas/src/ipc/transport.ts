@@ -0,0 +1,244 @@
+// IPC Transport - stream connections addressed by URL
+// The rest of src/ipc only sees sockets that write text and end. Addresses:
+//   /tmp/canvas-x.sock or unix:///tmp/canvas-x.sock  Unix domain socket
+//   tcp://127.0.0.1:7400                              TCP
+//   ws://127.0.0.1:7400/canvas                        WebSocket
+// NDJSON framing rides on top unchanged; a WebSocket message may hold any
+// number of whole or partial lines, just like a stream chunk.
+
+import { existsSync, unlinkSync } from "fs";
+import { timingSafeEqual } from "crypto";
+import type { Socket, SocketHandler } from "bun";
+
+export type Endpoint =
+  | { scheme: "unix"; path: string }
+  | { scheme: "tcp"; host: string; port: number }
+  | { scheme: "ws"; host: string; port: number; path: string };
+
+export interface TransportSocket {
+  write: (data: string) => void;
+  end: () => void;
+}
+
+export interface TransportHandlers {
+  open?: (socket: TransportSocket) => void;
+  data: (socket: TransportSocket, data: Uint8Array | string) => void;
+  close?: (socket: TransportSocket) => void;
+  error?: (socket: TransportSocket, error: Error) => void;
+}
+
+export interface TransportListener {
+  /** The address peers should use, with the real port if 0 was requested */
+  address: string;
+  /** Stop listening and drop every open connection */
+  stop: () => void;
+}
+
+export function parseEndpoint(address: string): Endpoint {
+  if (!address.includes("://")) {
+    return { scheme: "unix", path: address };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(address);
+  } catch {
+    throw new Error(`Invalid IPC address: ${address}`);
+  }
+
+  switch (url.protocol) {
+    case "unix:":
+      if (!url.pathname) throw new Error(`Missing socket path in ${address}`);
+      return { scheme: "unix", path: decodeURIComponent(url.pathname) };
+    case "tcp:":
+    case "ws:": {
+      const port = Number(url.port);
+      if (!url.port || !Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`Missing or invalid port in ${address}`);
+      }
+      // URL keeps the brackets around IPv6 hosts
+      const host = url.hostname.replace(/^\[(.*)\]$/, "$1") || "127.0.0.1";
+      return url.protocol === "tcp:"
+        ? { scheme: "tcp", host, port }
+        : { scheme: "ws", host, port, path: url.pathname || "/" };
+    }
+    default:
+      throw new Error(`Unsupported IPC transport "${url.protocol.slice(0, -1)}" (expected unix, tcp or ws)`);
+  }
+}
+
+export function formatEndpoint(endpoint: Endpoint): string {
+  const host = (h: string) => (h.includes(":") ? `[${h}]` : h);
+  switch (endpoint.scheme) {
+    case "unix":
+      return endpoint.path;
+    case "tcp":
+      return `tcp://${host(endpoint.host)}:${endpoint.port}`;
+    case "ws":
+      return `ws://${host(endpoint.host)}:${endpoint.port}${endpoint.path}`;
+  }
+}
+
+// Compare shared-secret tokens without leaking where they differ
+export function tokensMatch(expected: string, actual: unknown): boolean {
+  if (typeof actual !== "string") return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// ============================================
+// Listening
+// ============================================
+
+export function listen(address: string, handlers: TransportHandlers): TransportListener {
+  const endpoint = parseEndpoint(address);
+  // One wrapper per connection, so handlers can key state on it
+  const sockets = new Map<unknown, TransportSocket>();
+
+  const track = (raw: unknown, socket: TransportSocket) => {
+    sockets.set(raw, socket);
+    return socket;
+  };
+
+  const release = (raw: unknown) => {
+    const socket = sockets.get(raw);
+    sockets.delete(raw);
+    return socket;
+  };
+
+  if (endpoint.scheme === "ws") {
+    const server = Bun.serve({
+      hostname: endpoint.host,
+      port: endpoint.port,
+      fetch(req, server) {
+        if (new URL(req.url).pathname !== endpoint.path) {
+          return new Response("Not found", { status: 404 });
+        }
+        if (server.upgrade(req)) return undefined;
+        return new Response("WebSocket upgrade required", { status: 426 });
+      },
+      websocket: {
+        open(ws) {
+          const socket = track(ws, { write: (data) => void ws.send(data), end: () => ws.close() });
+          handlers.open?.(socket);
+        },
+        message(ws, message) {
+          const socket = sockets.get(ws);
+          if (socket) handlers.data(socket, message);
+        },
+        close(ws) {
+          const socket = release(ws);
+          if (socket) handlers.close?.(socket);
+        },
+      },
+    });
+
+    return {
+      address: formatEndpoint({ ...endpoint, port: server.port ?? endpoint.port }),
+      stop() {
+        server.stop(true);
+      },
+    };
+  }
+
+  const socketHandlers: SocketHandler<undefined> = {
+    open(raw: Socket) {
+      const socket = track(raw, { write: (data) => void raw.write(data), end: () => raw.end() });
+      handlers.open?.(socket);
+    },
+    data(raw: Socket, data: Uint8Array) {
+      const socket = sockets.get(raw);
+      if (socket) handlers.data(socket, data);
+    },
+    close(raw: Socket) {
+      const socket = release(raw);
+      if (socket) handlers.close?.(socket);
+    },
+    error(raw: Socket, error: Error) {
+      const socket = sockets.get(raw);
+      if (socket) handlers.error?.(socket, error);
+    },
+  };
+
+  if (endpoint.scheme === "unix") {
+    // Remove a stale socket file left by a previous run
+    if (existsSync(endpoint.path)) {
+      unlinkSync(endpoint.path);
+    }
+    const server = Bun.listen({ unix: endpoint.path, socket: socketHandlers });
+    return {
+      address: endpoint.path,
+      stop() {
+        server.stop(true);
+        if (existsSync(endpoint.path)) {
+          unlinkSync(endpoint.path);
+        }
+      },
+    };
+  }
+
+  const server = Bun.listen({ hostname: endpoint.host, port: endpoint.port, socket: socketHandlers });
+  return {
+    address: formatEndpoint({ ...endpoint, port: server.port }),
+    stop() {
+      server.stop(true);
+    },
+  };
+}
+
+// ============================================
+// Connecting
+// ============================================
+
+export async function connect(address: string, handlers: TransportHandlers): Promise<TransportSocket> {
+  const endpoint = parseEndpoint(address);
+
+  if (endpoint.scheme === "ws") {
+    const ws = new WebSocket(formatEndpoint(endpoint));
+    const socket: TransportSocket = {
+      write: (data) => {
+        if (ws.readyState === WebSocket.OPEN) ws.send(data);
+      },
+      end: () => ws.close(),
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      ws.onopen = () => resolve();
+      ws.onerror = () => reject(new Error(`Failed to connect to ${address}`));
+    });
+
+    ws.onmessage = (event) => {
+      const data = event.data;
+      handlers.data(socket, typeof data === "string" ? data : new Uint8Array(data as ArrayBuffer));
+    };
+    ws.onclose = () => handlers.close?.(socket);
+    ws.onerror = () => handlers.error?.(socket, new Error(`WebSocket error on ${address}`));
+    ws.binaryType = "arraybuffer";
+    handlers.open?.(socket);
+    return socket;
+  }
+
+  let socket: TransportSocket | null = null;
+  const socketHandlers: SocketHandler<undefined> = {
+    data(_raw, data) {
+      if (socket) handlers.data(socket, data);
+    },
+    close() {
+      if (socket) handlers.close?.(socket);
+    },
+    error(_raw, error) {
+      if (socket) handlers.error?.(socket, error);
+    },
+  };
+  const raw = await (endpoint.scheme === "unix"
+    ? Bun.connect({ unix: endpoint.path, socket: socketHandlers })
+    : Bun.connect({ hostname: endpoint.host, port: endpoint.port, socket: socketHandlers }));
+
+  socket = {
+    write: (data) => void raw.write(data),
+    end: () => raw.end(),
+  };
+  handlers.open?.(socket);
+  return socket;
+}
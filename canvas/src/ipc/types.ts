@@ -1,24 +1,113 @@
 // IPC Message Types for Canvas Communication
 
+import { getCanvasSocketPath } from "../runtime/dirs";
+import type { SchemaIssue } from "../schema";
+import type { PatchFormat } from "./patch";
+
+// Bumped whenever a message changes shape incompatibly
+export const PROTOCOL_VERSION = 1;
+
+// Whether a canvas listens for controllers or connects out to one
+export type IPCMode = "listen" | "connect";
+
+// Long-lived connections ping this often, and a peer silent for longer than
+// the timeout is treated as gone
+export const HEARTBEAT_INTERVAL_MS = 2000;
+export const HEARTBEAT_TIMEOUT_MS = 6000;
+
+// A canvas's view of its controller link, shown in its status indicator
+export type ConnectionStatus =
+  | "offline"       // No socket configured
+  | "listening"     // Listening, no controller connected yet
+  | "connecting"    // Dialing the controller for the first time
+  | "connected"
+  | "reconnecting"  // Lost the controller, retrying with backoff
+  | "disconnected"; // Gave up, or the connection couldn't be opened
+
+// Controller message types every canvas handles
+export const BASE_CAPABILITIES = ["hello", "ping", "close", "subscribe", "unsubscribe", "getSnapshot"];
+
+// UI events a controller can subscribe to instead of polling
+export const EVENT_TOPICS = [
+  "selection",       // Selected text/slot/seat changed
+  "cursor",          // Keyboard cursor moved
+  "hover",           // Mouse hover moved
+  "scroll",          // Viewport scrolled
+  "contentChanged",  // User edited the content
+  "focus",           // Focus moved between panels
+  "keypress",        // Key pressed in the canvas
+] as const;
+
+export type EventTopic = (typeof EVENT_TOPICS)[number];
+
+// Why a canvas rejected a controller message
+export type IPCErrorCode =
+  | "unknown_message"          // No such message type
+  | "parse_error"              // Frame wasn't a JSON message object
+  | "unsupported_in_scenario"  // Known type, but this canvas/scenario can't handle it
+  | "invalid_config"           // update/patch produced a config that fails the canvas's schema
+  | "invalid_patch"            // patch couldn't be applied (bad operation or path)
+  | "unknown_topic"            // subscribe named a topic that doesn't exist
+  | "invalid_message"          // Known type, but its fields have the wrong shape
+  | "unauthorized";            // Missing or wrong token; the canvas drops the connection
+
+// What a canvas reports about itself in the handshake
+export interface CanvasInfo {
+  protocolVersion: number;
+  kind: string;
+  id: string;
+  scenario: string;
+  mode: IPCMode;
+  capabilities: string[];    // Controller message types this canvas handles
+  topics: EventTopic[];      // Event topics this canvas publishes
+}
+
+// The frame a canvas last drew, as it would appear on a terminal
+export interface CanvasSnapshot {
+  frame: string;  // With ANSI colour codes
+  columns: number;
+  rows: number;
+}
+
 // Messages sent from Controller (Claude) to Canvas
+// Any request may carry a requestId; the canvas echoes it in the matching reply
 export type ControllerMessage =
-  | { type: "close" }
-  | { type: "update"; config: unknown }
-  | { type: "ping" }
-  | { type: "getSelection" }
-  | { type: "getContent" };
+  | { type: "hello"; protocolVersion?: number; token?: string; requestId?: string }
+  | { type: "close"; requestId?: string }
+  | { type: "update"; config: unknown; requestId?: string }
+  | { type: "patch"; patch: unknown; format?: PatchFormat; requestId?: string }
+  | { type: "ping"; requestId?: string }
+  | { type: "pong"; requestId?: string } // Reply to a canvas's heartbeat ping
+  | { type: "getSelection"; requestId?: string }
+  | { type: "getContent"; requestId?: string }
+  | { type: "getSnapshot"; requestId?: string }
+  | { type: "subscribe"; topics: EventTopic[]; requestId?: string }
+  | { type: "unsubscribe"; topics?: EventTopic[]; requestId?: string }; // No topics: all
 
 // Messages sent from Canvas to Controller (Claude)
 export type CanvasMessage =
+  | ({ type: "welcome"; requestId?: string } & CanvasInfo)
   | { type: "ready"; scenario: string }
   | { type: "selected"; data: unknown }
   | { type: "cancelled"; reason?: string }
-  | { type: "error"; message: string }
-  | { type: "pong" }
-  | { type: "selection"; data: { selectedText: string; startOffset: number; endOffset: number } | null }
-  | { type: "content"; data: { content: string; cursorPosition: number } };
+  | { type: "error"; message: string; code?: IPCErrorCode; issues?: SchemaIssue[]; requestId?: string }
+  | { type: "pong"; requestId?: string }
+  | { type: "ping"; requestId?: string } // Heartbeat from a canvas in connect mode
+  | { type: "updated"; requestId?: string } // The update was applied
+  | { type: "patched"; requestId?: string } // The patch was applied
+  | { type: "closing"; requestId?: string } // Sent just before the canvas exits on close
+  | { type: "selection"; requestId?: string; data: { selectedText: string; startOffset: number; endOffset: number } | null }
+  | { type: "content"; requestId?: string; data: { content: string; cursorPosition: number } }
+  | { type: "snapshot"; requestId?: string; data: CanvasSnapshot }
+  | { type: "subscribed"; requestId?: string; topics: EventTopic[] } // The connection's topics after (un)subscribe
+  | { type: "event"; topic: EventTopic; data: unknown };
 
-// Socket path convention
+// Socket path convention: <id>.sock in the per-user runtime directory
 export function getSocketPath(id: string): string {
-  return `/tmp/canvas-${id}.sock`;
+  return getCanvasSocketPath(id);
+}
+
+// Generate an ID for correlating a request with its reply
+export function createRequestId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
 }
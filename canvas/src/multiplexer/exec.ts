@@ -0,0 +1,35 @@
+// Multiplexer Commands - run a multiplexer's CLI and collect its output
+
+import { spawn, spawnSync } from "child_process";
+
+export interface CommandResult {
+  ok: boolean;
+  stdout: string;
+}
+
+export function run(command: string, args: string[]): Promise<CommandResult> {
+  return new Promise((resolve) => {
+    const proc = spawn(command, args);
+    let stdout = "";
+    proc.stdout?.on("data", (data) => {
+      stdout += data.toString();
+    });
+    proc.on("close", (code) => resolve({ ok: code === 0, stdout }));
+    proc.on("error", () => resolve({ ok: false, stdout: "" }));
+  });
+}
+
+export function runSync(command: string, args: string[]): CommandResult {
+  const result = spawnSync(command, args);
+  return { ok: result.status === 0, stdout: result.stdout?.toString() ?? "" };
+}
+
+// Wait for a file another process writes, such as a screen hardcopy
+export async function waitForFile(path: string, timeoutMs = 2000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await Bun.file(path).exists())) {
+    if (Date.now() >= deadline) return false;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return true;
+}
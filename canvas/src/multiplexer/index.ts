@@ -0,0 +1,31 @@
+// Terminal Multiplexer - pick the backend for the multiplexer we run inside
+
+import { screen } from "./screen";
+import { tmux } from "./tmux";
+import type { Multiplexer, MultiplexerName } from "./types";
+import { zellij } from "./zellij";
+
+export * from "./types";
+export { keysToText } from "./keys";
+export { tmux, screen, zellij };
+
+const BACKENDS: Record<MultiplexerName, Multiplexer> = { tmux, screen, zellij };
+
+export function isMultiplexerName(value: string): value is MultiplexerName {
+  return value in BACKENDS;
+}
+
+export function getMultiplexer(name: MultiplexerName): Multiplexer {
+  return BACKENDS[name];
+}
+
+// The multiplexer this process runs inside, from the variables each one sets.
+// Nested sessions set several; CANVAS_MULTIPLEXER picks one explicitly.
+export function detectMultiplexer(): Multiplexer | null {
+  const forced = process.env.CANVAS_MULTIPLEXER;
+  if (forced && isMultiplexerName(forced)) return BACKENDS[forced];
+  if (process.env.TMUX) return tmux;
+  if (process.env.ZELLIJ !== undefined && process.env.ZELLIJ_PANE_ID) return zellij;
+  if (process.env.STY) return screen;
+  return null;
+}
@@ -0,0 +1,37 @@
+// Key Names - turn tmux-style key names into the bytes a terminal sends
+// tmux understands names like "Down" or "C-c" itself; screen and Zellij only
+// take raw input, so their backends translate first.
+
+const NAMED_KEYS: Record<string, string> = {
+  Enter: "\r",
+  Escape: "\x1b",
+  Tab: "\t",
+  BTab: "\x1b[Z",
+  Space: " ",
+  BSpace: "\x7f",
+  Up: "\x1b[A",
+  Down: "\x1b[B",
+  Right: "\x1b[C",
+  Left: "\x1b[D",
+  Home: "\x1b[H",
+  End: "\x1b[F",
+  PageUp: "\x1b[5~",
+  PPage: "\x1b[5~",
+  PageDown: "\x1b[6~",
+  NPage: "\x1b[6~",
+  DC: "\x1b[3~",
+};
+
+// A key name, or literal text when it isn't one
+export function keysToText(keys: string): string {
+  const named = NAMED_KEYS[keys];
+  if (named !== undefined) return named;
+
+  const ctrl = /^C-([a-zA-Z@\[\\\]^_])$/.exec(keys);
+  if (ctrl) return String.fromCharCode(ctrl[1]!.toUpperCase().charCodeAt(0) & 0x1f);
+
+  const meta = /^M-(.+)$/.exec(keys);
+  if (meta) return `\x1b${keysToText(meta[1]!)}`;
+
+  return keys;
+}
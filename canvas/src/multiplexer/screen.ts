@@ -0,0 +1,94 @@
+// GNU screen Backend - screen has windows shown in regions rather than panes,
+// so a "pane" here is a window number ($WINDOW inside it). A new pane is a
+// new region with a new window in it. Commands go to the session in $STY;
+// querying windows needs screen 4.1 or later.
+
+import { randomUUID } from "crypto";
+import { unlinkSync } from "fs";
+import { getRuntimePath } from "../runtime/dirs";
+import { run, runSync, waitForFile } from "./exec";
+import { keysToText } from "./keys";
+import type { Multiplexer } from "./types";
+
+function screenArgs(args: string[], window?: string): string[] {
+  const session = process.env.STY ? ["-S", process.env.STY] : [];
+  return [...session, ...(window === undefined ? [] : ["-p", window]), ...args];
+}
+
+function screenCommand(args: string[], window?: string) {
+  return run("screen", screenArgs(["-X", ...args], window));
+}
+
+// The number of a window, looked up by number or title
+function windowNumber(window: string): string | null {
+  const result = runSync("screen", screenArgs(["-Q", "number"], window));
+  const match = /^(\d+)/.exec(result.stdout.trim());
+  return result.ok && match ? match[1]! : null;
+}
+
+// Open a window running command in the focused region, returning its number.
+// A fresh title finds it again; with number given, screen reuses that slot.
+async function openWindow(command: string, number?: string): Promise<string | null> {
+  const title = `canvas-${randomUUID().slice(0, 8)}`;
+  const slot = number === undefined ? [] : [number];
+  if (!(await screenCommand(["screen", "-t", title, ...slot, "sh", "-c", command])).ok) return null;
+  return windowNumber(title);
+}
+
+// Text for the stuff command, which treats ^ and \ as escapes
+function stuffText(keys: string): string {
+  return keysToText(keys).replace(/[\\^]/g, (ch) => `\\${ch}`);
+}
+
+export const screen: Multiplexer = {
+  name: "screen",
+
+  currentPane: () => process.env.WINDOW,
+
+  paneExists(window) {
+    return windowNumber(window) === window;
+  },
+
+  async splitPane(command, split) {
+    if (split.target) {
+      await screenCommand(["select", split.target]);
+    }
+    // screen's -v split puts regions side by side, tmux's -h
+    await screenCommand(split.direction === "h" ? ["split", "-v"] : ["split"]);
+    await screenCommand(["focus"]);
+    await screenCommand(["resize", split.direction === "h" ? "-h" : "-v", `${split.size}%`]);
+    return openWindow(command);
+  },
+
+  async respawnPane(window, command) {
+    // No respawn: close the window and open one under the same number, which
+    // shows up in the focused region
+    await screenCommand(["kill"], window);
+    return openWindow(command, window);
+  },
+
+  async capturePane(window) {
+    // hardcopy writes plain text, without colours
+    const file = getRuntimePath(`screen-hardcopy-${randomUUID()}`);
+    if (!(await screenCommand(["hardcopy", file], window)).ok) return null;
+    if (!(await waitForFile(file))) return null;
+    const text = await Bun.file(file).text();
+    unlinkSync(file);
+    return text;
+  },
+
+  async sendKeys(window, keys) {
+    return (await screenCommand(["stuff", stuffText(keys)], window)).ok;
+  },
+
+  async killPane(window) {
+    // The region the window was shown in stays, showing another window
+    return (await screenCommand(["kill"], window)).ok;
+  },
+
+  async focusPane(window) {
+    // Shows the window in the focused region. Regions can't be found by the
+    // window they show, so screen can't zoom, resize or swap them either.
+    return (await screenCommand(["select", window])).ok;
+  },
+};
@@ -0,0 +1,69 @@
+// tmux Backend - panes are addressed by tmux's pane ids (%3)
+
+import { run, runSync } from "./exec";
+import type { Multiplexer } from "./types";
+
+export const tmux: Multiplexer = {
+  name: "tmux",
+
+  currentPane: () => process.env.TMUX_PANE,
+
+  paneExists(paneId) {
+    const result = runSync("tmux", ["display-message", "-t", paneId, "-p", "#{pane_id}"]);
+    // Pane exists only if command succeeds AND returns the same pane ID
+    return result.ok && result.stdout.trim() === paneId;
+  },
+
+  async splitPane(command, split) {
+    // -h splits side by side, -v stacks; -p sets the new pane's share
+    // -P -F prints the new pane ID
+    const args = ["split-window", `-${split.direction}`, "-p", String(split.size)];
+    if (split.target) args.push("-t", split.target);
+    args.push("-P", "-F", "#{pane_id}", command);
+    const result = await run("tmux", args);
+    const paneId = result.stdout.trim();
+    return result.ok && paneId ? paneId : null;
+  },
+
+  async respawnPane(paneId, command) {
+    // -k kills whatever runs in the pane, then runs ours
+    const result = await run("tmux", ["respawn-pane", "-k", "-t", paneId, command]);
+    return result.ok ? paneId : null;
+  },
+
+  async capturePane(paneId, options = {}) {
+    // -p prints to stdout, -e includes escape sequences (colors)
+    const args = ["capture-pane", "-p", ...(options.escapes ? ["-e"] : []), "-t", paneId];
+    const result = await run("tmux", args);
+    return result.ok ? result.stdout : null;
+  },
+
+  async sendKeys(paneId, keys) {
+    return (await run("tmux", ["send-keys", "-t", paneId, keys])).ok;
+  },
+
+  async killPane(paneId) {
+    return (await run("tmux", ["kill-pane", "-t", paneId])).ok;
+  },
+
+  async focusPane(paneId) {
+    // Bring up the pane's window too, in case it isn't the current one
+    return (await run("tmux", ["select-window", "-t", paneId, ";", "select-pane", "-t", paneId])).ok;
+  },
+
+  async zoomPane(paneId) {
+    return (await run("tmux", ["resize-pane", "-Z", "-t", paneId])).ok;
+  },
+
+  async resizePane(paneId, size) {
+    const args = ["resize-pane", "-t", paneId];
+    if (size.width) args.push("-x", size.width);
+    if (size.height) args.push("-y", size.height);
+    return (await run("tmux", args)).ok;
+  },
+
+  async swapPanes(paneId, otherPaneId) {
+    // -d leaves the focus where it was
+    return (await run("tmux", ["swap-pane", "-d", "-s", paneId, "-t", otherPaneId])).ok;
+  },
+};
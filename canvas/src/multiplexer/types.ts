@@ -0,0 +1,51 @@
+// Terminal Multiplexer Types - the pane operations canvases need
+// terminal.ts places canvases and the Leet pane through this interface, so
+// the same spawn logic works in tmux, GNU screen and Zellij.
+
+export type MultiplexerName = "tmux" | "screen" | "zellij";
+
+// h: side by side, v: stacked
+export type SplitDirection = "h" | "v";
+
+export interface PaneSplit {
+  direction: SplitDirection;
+  /** Size of the new pane, as a percentage of the pane it splits */
+  size: number;
+  /** Pane to split (defaults to the focused pane) */
+  target?: string;
+}
+
+// Columns or rows, or a percentage of the window such as "60%"
+export interface PaneSize {
+  width?: string;
+  height?: string;
+}
+
+export interface CaptureOptions {
+  /** Keep colour escape sequences, where the multiplexer can */
+  escapes?: boolean;
+}
+
+export interface Multiplexer {
+  name: MultiplexerName;
+  /** Pane this process runs in, from the environment the multiplexer sets */
+  currentPane: () => string | undefined;
+  paneExists: (paneId: string) => boolean;
+  /** Run a shell command in a new pane; resolves with the pane's id */
+  splitPane: (command: string, split: PaneSplit) => Promise<string | null>;
+  /** Replace what runs in a pane; resolves with the pane the command now runs in */
+  respawnPane: (paneId: string, command: string) => Promise<string | null>;
+  /** The pane's visible contents */
+  capturePane: (paneId: string, options?: CaptureOptions) => Promise<string | null>;
+  /** Send keys named the way tmux names them: text, or Enter, Up, Tab, C-c... */
+  sendKeys: (paneId: string, keys: string) => Promise<boolean>;
+  killPane: (paneId: string) => Promise<boolean>;
+  /** Give a pane the keyboard focus */
+  focusPane: (paneId: string) => Promise<boolean>;
+  /** Toggle a pane filling its window; unset where the multiplexer can't */
+  zoomPane?: (paneId: string) => Promise<boolean>;
+  /** Unset where the multiplexer can't size a pane it isn't focused on */
+  resizePane?: (paneId: string, size: PaneSize) => Promise<boolean>;
+  /** Swap where two panes are shown; unset where the multiplexer can't */
+  swapPanes?: (paneId: string, otherPaneId: string) => Promise<boolean>;
+}
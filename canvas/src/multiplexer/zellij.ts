@@ -0,0 +1,142 @@
+// Zellij Backend - panes are addressed by $ZELLIJ_PANE_ID. Zellij's CLI only
+// acts on the focused pane, so acting on another pane moves focus to it
+// (within the current tab) and back again afterwards.
+
+import { randomUUID } from "crypto";
+import { existsSync, readdirSync, readFileSync, unlinkSync } from "fs";
+import { getRuntimePath } from "../runtime/dirs";
+import { run, runSync, waitForFile } from "./exec";
+import { keysToText } from "./keys";
+import type { Multiplexer, PaneSplit } from "./types";
+
+// Upper bound on panes to step through looking for one
+const MAX_PANES = 64;
+
+function action(args: string[]) {
+  return run("zellij", ["action", ...args]);
+}
+
+// The focused pane's id, from list-clients ("1  terminal_3  bun run ...")
+function focusedPane(): string | null {
+  const result = runSync("zellij", ["action", "list-clients"]);
+  const match = /^\s*\d+\s+terminal_(\d+)/m.exec(result.stdout);
+  return result.ok && match ? match[1]! : null;
+}
+
+// Step focus through the tab's panes until paneId is focused
+async function focusPane(paneId: string): Promise<boolean> {
+  for (let i = 0; i < MAX_PANES; i++) {
+    const focused = focusedPane();
+    if (focused === null) return false;
+    if (focused === paneId) return true;
+    await action(["focus-next-pane"]);
+  }
+  return false;
+}
+
+// Run fn with paneId focused, then give focus back. Resolves null if the
+// pane isn't in the current tab.
+async function withFocus<T>(paneId: string, fn: () => Promise<T>): Promise<T | null> {
+  const original = focusedPane();
+  if (!(await focusPane(paneId))) return null;
+  try {
+    return await fn();
+  } finally {
+    if (original && original !== paneId) await focusPane(original);
+  }
+}
+
+// Only the focused pane can be seen without moving focus, so look for a
+// process started in the pane instead: they carry its id in their environment.
+// Returns null where there's no /proc to look in.
+function paneProcessExists(paneId: string): boolean | null {
+  if (!existsSync("/proc")) return null;
+  const session = process.env.ZELLIJ_SESSION_NAME;
+  for (const pid of readdirSync("/proc")) {
+    if (!/^\d+$/.test(pid)) continue;
+    try {
+      const env = readFileSync(`/proc/${pid}/environ`, "utf8").split("\0");
+      if (env.includes(`ZELLIJ_PANE_ID=${paneId}`) && (!session || env.includes(`ZELLIJ_SESSION_NAME=${session}`))) {
+        return true;
+      }
+    } catch {
+      // Gone, or not ours to read
+    }
+  }
+  return false;
+}
+
+// new-pane doesn't report the pane it made, so the pane reports its own id
+// through a file before running the command
+async function newPane(command: string, split: PaneSplit): Promise<string | null> {
+  const idFile = getRuntimePath(`zellij-pane-${randomUUID()}`);
+  const script = 'printf %s "$ZELLIJ_PANE_ID" > "$1"; exec sh -c "$0"';
+  const result = await action([
+    "new-pane",
+    "--direction",
+    split.direction === "h" ? "right" : "down",
+    "--close-on-exit",
+    "--",
+    "sh",
+    "-c",
+    script,
+    command,
+    idFile,
+  ]);
+  if (!result.ok || !(await waitForFile(idFile, 5000))) return null;
+  const paneId = (await Bun.file(idFile).text()).trim();
+  unlinkSync(idFile);
+  return paneId || null;
+}
+
+export const zellij: Multiplexer = {
+  name: "zellij",
+
+  currentPane: () => process.env.ZELLIJ_PANE_ID,
+
+  paneExists(paneId) {
+    return paneProcessExists(paneId) ?? focusedPane() === paneId;
+  },
+
+  async splitPane(command, split) {
+    // Zellij sizes new panes itself, so split.size isn't used
+    if (split.target) {
+      return withFocus(split.target, () => newPane(command, split));
+    }
+    return newPane(command, split);
+  },
+
+  async respawnPane(paneId, command) {
+    // No respawn: close the pane and open a new one next to where it was
+    const closed = await withFocus(paneId, async () => (await action(["close-pane"])).ok);
+    if (!closed) return null;
+    return newPane(command, { direction: "h", size: 50 });
+  },
+
+  async capturePane(paneId) {
+    // dump-screen writes plain text, without colours
+    const file = getRuntimePath(`zellij-dump-${randomUUID()}`);
+    const dumped = await withFocus(paneId, async () => (await action(["dump-screen", file])).ok);
+    if (!dumped || !(await waitForFile(file))) return null;
+    const text = await Bun.file(file).text();
+    unlinkSync(file);
+    return text;
+  },
+
+  async sendKeys(paneId, keys) {
+    const bytes = [...Buffer.from(keysToText(keys))].map(String);
+    return (await withFocus(paneId, async () => (await action(["write", ...bytes])).ok)) ?? false;
+  },
+
+  async killPane(paneId) {
+    return (await withFocus(paneId, async () => (await action(["close-pane"])).ok)) ?? false;
+  },
+
+  focusPane,
+
+  async zoomPane(paneId) {
+    // Leaves the pane focused: a fullscreen pane loses fullscreen with focus.
+    // Zellij only resizes and moves panes by steps, so no resizePane or swapPanes.
+    return (await focusPane(paneId)) && (await action(["toggle-fullscreen"])).ok;
+  },
+};
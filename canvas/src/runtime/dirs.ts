@@ -0,0 +1,78 @@
+// Runtime Directory - where sockets, configs and locks live
+// One private directory per user: $XDG_RUNTIME_DIR/claude-canvas when the
+// session has one, otherwise claude-canvas-<uid> under the system temp dir.
+// Created with mode 0700 so other users can't read configs or reach sockets.
+
+import { chmodSync, mkdirSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+let ensuredDir: string | null = null;
+
+function runtimeDirPath(): string {
+  const xdg = process.env.XDG_RUNTIME_DIR;
+  if (xdg) return join(xdg, "claude-canvas");
+  const uid = process.getuid?.() ?? "user";
+  return join(tmpdir(), `claude-canvas-${uid}`);
+}
+
+// The runtime directory, created (or tightened back to 0700) on first use
+export function getRuntimeDir(): string {
+  const dir = runtimeDirPath();
+  if (ensuredDir === dir) return dir;
+
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const stats = statSync(dir);
+  const uid = process.getuid?.();
+  // In a shared temp dir someone else could have created it first
+  if (uid !== undefined && stats.uid !== uid) {
+    throw new Error(`Canvas runtime directory ${dir} is owned by another user`);
+  }
+  if ((stats.mode & 0o777) !== 0o700) {
+    chmodSync(dir, 0o700);
+  }
+
+  ensuredDir = dir;
+  return dir;
+}
+
+export function getRuntimePath(name: string): string {
+  return join(getRuntimeDir(), name);
+}
+
+// Per-canvas files, all named after the canvas id. Ids become file names, so
+// one that could point outside the directory is refused.
+function getCanvasFilePath(id: string, suffix: string): string {
+  if (!id || id === "." || id === ".." || /[/\0]/.test(id)) {
+    throw new Error(`Invalid canvas id '${id}'`);
+  }
+  return getRuntimePath(`${id}${suffix}`);
+}
+
+export function getCanvasSocketPath(id: string): string {
+  return getCanvasFilePath(id, ".sock");
+}
+
+export function getCanvasConfigPath(id: string): string {
+  return getCanvasFilePath(id, ".config.json");
+}
+
+export function getCanvasTokenPath(id: string): string {
+  return getCanvasFilePath(id, ".token");
+}
+
+export function getCanvasLockPath(id: string): string {
+  return getCanvasFilePath(id, ".lock");
+}
+
+export function getCanvasLauncherPath(id: string): string {
+  return getCanvasFilePath(id, ".launch.sh");
+}
+
+export const INSTANCE_FILE_SUFFIX = ".instance.json";
+
+export function getCanvasInstancePath(id: string): string {
+  return getCanvasFilePath(id, INSTANCE_FILE_SUFFIX);
+}
+
+export const CANVAS_FILE_SUFFIXES = [".sock", ".config.json", ".token", ".lock", ".launch.sh", INSTANCE_FILE_SUFFIX];
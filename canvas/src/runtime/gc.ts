@@ -0,0 +1,74 @@
+// Runtime Garbage Collection - clean up after canvases that died
+// A canvas is alive if its lock is held by a running process or something
+// still answers on its socket. Everything else left under its id (socket,
+// config, token, stale lock) is removed.
+
+import { readdirSync, unlinkSync } from "fs";
+import { connect } from "../ipc/transport";
+import { CANVAS_FILE_SUFFIXES, getCanvasSocketPath, getRuntimeDir, getRuntimePath } from "./dirs";
+import { readLockOwner } from "./lock";
+
+export interface GarbageReport {
+  /** Ids still in use, left alone */
+  alive: string[];
+  /** Ids whose files were removed */
+  removed: { id: string; files: string[] }[];
+}
+
+// Group the runtime directory's per-canvas files by id
+function listCanvasFiles(): Map<string, string[]> {
+  const byId = new Map<string, string[]>();
+  for (const name of readdirSync(getRuntimeDir())) {
+    const suffix = CANVAS_FILE_SUFFIXES.find((s) => name.endsWith(s));
+    if (!suffix) continue;
+    const id = name.slice(0, -suffix.length);
+    byId.set(id, [...(byId.get(id) ?? []), name]);
+  }
+  return byId;
+}
+
+// Does anything accept connections on the socket? Connecting is enough;
+// a listener that has died leaves a file that refuses connections.
+export async function probeSocket(socketPath: string, timeoutMs = 500): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+  const attempt = connect(socketPath, { data() {} }).then(
+    (socket) => {
+      socket.end();
+      return true;
+    },
+    () => false
+  );
+  const alive = await Promise.race([attempt, timeout]);
+  clearTimeout(timer);
+  return alive;
+}
+
+export async function collectGarbage(options: { dryRun?: boolean } = {}): Promise<GarbageReport> {
+  const report: GarbageReport = { alive: [], removed: [] };
+
+  for (const [id, files] of listCanvasFiles()) {
+    const alive =
+      readLockOwner(id) !== null ||
+      (files.includes(`${id}.sock`) && (await probeSocket(getCanvasSocketPath(id))));
+    if (alive) {
+      report.alive.push(id);
+      continue;
+    }
+
+    if (!options.dryRun) {
+      for (const name of files) {
+        try {
+          unlinkSync(getRuntimePath(name));
+        } catch {
+          // Already gone
+        }
+      }
+    }
+    report.removed.push({ id, files });
+  }
+
+  return report;
+}
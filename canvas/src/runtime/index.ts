@@ -0,0 +1,5 @@
+// Runtime module exports
+export * from "./dirs";
+export * from "./lock";
+export * from "./gc";
+export * from "./registry";
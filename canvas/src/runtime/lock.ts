@@ -0,0 +1,78 @@
+// Canvas Locks - at most one live canvas process per id
+// The lockfile holds the owner's pid. A lock whose pid is gone (the canvas
+// crashed or was killed) is stale and may be taken over.
+
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from "fs";
+import { getCanvasLockPath } from "./dirs";
+
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    // EPERM means it exists but belongs to someone else
+    return (e as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+// The pid holding the lock for id, or null if it's free or stale
+export function readLockOwner(id: string): number | null {
+  const lockPath = getCanvasLockPath(id);
+  if (!existsSync(lockPath)) return null;
+  const pid = Number.parseInt(readFileSync(lockPath, "utf8").trim(), 10);
+  return Number.isInteger(pid) && pid > 0 && isProcessAlive(pid) ? pid : null;
+}
+
+function tryLock(lockPath: string): boolean {
+  try {
+    writeFileSync(lockPath, `${process.pid}\n`, { flag: "wx", mode: 0o600 });
+    return true;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "EEXIST") return false;
+    throw e;
+  }
+}
+
+export interface CanvasLock {
+  release: () => void;
+}
+
+// Take the lock for id. A canvas being replaced in the same pane may still be
+// shutting down, so a live owner gets waitMs to let go before we give up.
+export async function acquireCanvasLock(id: string, waitMs = 1000): Promise<CanvasLock> {
+  const lockPath = getCanvasLockPath(id);
+  const deadline = Date.now() + waitMs;
+
+  while (!tryLock(lockPath)) {
+    const owner = readLockOwner(id);
+    if (owner === null) {
+      // Stale: clear it and race for it again
+      try {
+        unlinkSync(lockPath);
+      } catch {
+        // Someone else cleared it first
+      }
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Canvas '${id}' is already running (pid ${owner})`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+
+  let released = false;
+  return {
+    release() {
+      if (released) return;
+      released = true;
+      try {
+        // Only remove the file if it is still ours
+        if (readFileSync(lockPath, "utf8").trim() === String(process.pid)) {
+          unlinkSync(lockPath);
+        }
+      } catch {
+        // Already gone
+      }
+    },
+  };
+}
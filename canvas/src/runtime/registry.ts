@@ -0,0 +1,92 @@
+// Canvas Registry - which canvases are running, and where
+// Each canvas with a socket writes <id>.instance.json into the runtime
+// directory when it starts and records its exit status there when it exits.
+// Records of canvases that crashed have no exit status, just a pid that is no
+// longer alive. Either kind stays behind until `canvas gc` or until the id is
+// reused.
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { getCanvasInstancePath, getRuntimeDir, getRuntimePath, INSTANCE_FILE_SUFFIX } from "./dirs";
+import { isProcessAlive } from "./lock";
+import type { MultiplexerName } from "../multiplexer/types";
+
+export interface CanvasInstance {
+  id: string;
+  kind: string;
+  scenario: string;
+  pid: number;
+  /** Multiplexer pane the canvas runs in, when it runs in one */
+  paneId?: string;
+  /** Which multiplexer paneId belongs to (tmux when unset) */
+  multiplexer?: MultiplexerName;
+  /** Socket path or transport URL controllers connect to */
+  socket: string;
+  /** ISO timestamp */
+  startedAt: string;
+  /** Exit status, once the canvas has exited */
+  exitCode?: number;
+  /** ISO timestamp, set with exitCode */
+  exitedAt?: string;
+}
+
+export interface RegisteredCanvas extends CanvasInstance {
+  /** Whether the canvas process is still running */
+  alive: boolean;
+}
+
+export function registerCanvas(instance: CanvasInstance): void {
+  writeFileSync(getCanvasInstancePath(instance.id), JSON.stringify(instance, null, 2), { mode: 0o600 });
+}
+
+// Keep the record, marked with how the process exited, unless another process
+// has since registered the id
+export function recordCanvasExit(id: string, exitCode: number, pid = process.pid): void {
+  const instance = readInstanceFile(getCanvasInstancePath(id));
+  if (!instance || instance.pid !== pid) return;
+  registerCanvas({ ...instance, exitCode, exitedAt: new Date().toISOString() });
+}
+
+// Resolve with the canvas's exit status once it records one, or undefined if
+// it doesn't within timeoutMs (still running, or died without recording it)
+export async function waitForCanvasExit(id: string, timeoutMs = 1000): Promise<number | undefined> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const instance = getCanvasInstance(id);
+    if (instance?.exitCode !== undefined) return instance.exitCode;
+    if (!instance?.alive || Date.now() >= deadline) return undefined;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+function readInstanceFile(path: string): CanvasInstance | null {
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf8")) as CanvasInstance;
+  } catch {
+    // Half-written or corrupt; treat as missing
+    return null;
+  }
+}
+
+// A recorded exit settles it, even if the pid has since been reused
+function isInstanceAlive(instance: CanvasInstance): boolean {
+  return instance.exitCode === undefined && isProcessAlive(instance.pid);
+}
+
+export function getCanvasInstance(id: string): RegisteredCanvas | null {
+  const instance = readInstanceFile(getCanvasInstancePath(id));
+  return instance ? { ...instance, alive: isInstanceAlive(instance) } : null;
+}
+
+// Every registered canvas, oldest first
+export function listCanvasInstances(): RegisteredCanvas[] {
+  const instances: RegisteredCanvas[] = [];
+  for (const name of readdirSync(getRuntimeDir())) {
+    if (!name.endsWith(INSTANCE_FILE_SUFFIX)) continue;
+    const instance = readInstanceFile(getRuntimePath(name));
+    if (instance) {
+      instances.push({ ...instance, alive: isInstanceAlive(instance) });
+    }
+  }
+  return instances.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
@@ -1,5 +1,18 @@
 // Scenario System Types
 
+import {
+  array,
+  boolean,
+  isoDateTime,
+  literal,
+  number,
+  object,
+  optional,
+  refine,
+  string,
+  type Schema,
+} from "../schema";
+
 export type InteractionMode = "view-only" | "selection" | "multi-select";
 export type CloseOn = "selection" | "escape" | "command" | "never";
 
@@ -41,12 +54,12 @@ export interface BaseCalendarConfig {
   endHour?: number;
 }
 
-// Meeting picker specific config
+// Meeting picker specific config; omitted fields take the scenario's defaults
 export interface MeetingPickerConfig extends BaseCalendarConfig {
   calendars: NamedCalendar[];
-  slotGranularity: 15 | 30 | 60; // minutes
-  minDuration: number; // minutes
-  maxDuration: number; // minutes
+  slotGranularity?: 15 | 30 | 60; // minutes
+  minDuration?: number; // minutes
+  maxDuration?: number; // minutes
 }
 
 // Meeting picker result
@@ -59,6 +72,70 @@ export interface MeetingPickerResult {
 // Union type for all calendar configs
 export type CalendarScenarioConfig = BaseCalendarConfig | MeetingPickerConfig;
 
+// ============================================
+// Config Schemas (validated before rendering and on update)
+// ============================================
+
+export const calendarEventSchema: Schema<CalendarEvent> = refine(
+  object<CalendarEvent>({
+    id: string(),
+    title: string(),
+    startTime: isoDateTime(),
+    endTime: isoDateTime(),
+    color: optional(string()),
+    allDay: optional(boolean()),
+  }),
+  (event) =>
+    Date.parse(event.endTime) < Date.parse(event.startTime)
+      ? { path: "endTime", message: "must not be before startTime" }
+      : null
+);
+
+export const namedCalendarSchema: Schema<NamedCalendar> = object<NamedCalendar>({
+  name: string(),
+  color: string(),
+  events: array(calendarEventSchema),
+});
+
+const hourSchema = number({ integer: true, min: 0, max: 24 });
+
+function checkHours(config: BaseCalendarConfig) {
+  if (config.startHour !== undefined && config.endHour !== undefined && config.endHour <= config.startHour) {
+    return { path: "endHour", message: "must be after startHour" };
+  }
+  return null;
+}
+
+export const baseCalendarConfigSchema: Schema<BaseCalendarConfig> = refine(
+  object<BaseCalendarConfig>({
+    title: optional(string()),
+    events: optional(array(calendarEventSchema)),
+    startHour: optional(hourSchema),
+    endHour: optional(hourSchema),
+  }),
+  checkHours
+);
+
+// Fields with a value in the scenario's defaultConfig may be omitted
+export const meetingPickerConfigSchema: Schema<MeetingPickerConfig> = refine(
+  object<MeetingPickerConfig>({
+    title: optional(string()),
+    events: optional(array(calendarEventSchema)),
+    startHour: optional(hourSchema),
+    endHour: optional(hourSchema),
+    calendars: array(namedCalendarSchema),
+    slotGranularity: optional(literal(15, 30, 60)),
+    minDuration: optional(number({ integer: true, min: 1 })),
+    maxDuration: optional(number({ integer: true, min: 1 })),
+  }),
+  (config) => {
+    if (config.minDuration !== undefined && config.maxDuration !== undefined && config.maxDuration < config.minDuration) {
+      return { path: "maxDuration", message: "must be >= minDuration" };
+    }
+    return checkHours(config);
+  }
+);
+
 // Type guard for meeting picker config
 export function isMeetingPickerConfig(
   config: CalendarScenarioConfig
@@ -0,0 +1,174 @@
+// Runtime Schemas - small validators for JSON coming from controllers
+// Configs arrive as untyped JSON (CLI flags, IPC updates), so each schema checks
+// a value and reports every problem with a path like flights[0].seatmap.occupied.
+
+export interface SchemaIssue {
+  path: string;     // e.g. "flights[0].departureTime", "" for the value itself
+  message: string;  // e.g. "expected ISO datetime string"
+}
+
+export interface Schema<T> {
+  /** Push an issue for every problem found in value */
+  check: (value: unknown, path: string, issues: SchemaIssue[]) => void;
+  /** Set by optional(): object() skips the key when it is missing */
+  optional?: boolean;
+  /** Type-only marker tying the schema to the interface it checks */
+  readonly __type?: T;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: SchemaIssue[] };
+
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, "", issues);
+  return issues.length === 0 ? { ok: true, value: value as T } : { ok: false, issues };
+}
+
+// One issue per line, e.g. "flights[0].seatmap.occupied: expected array"
+export function formatIssues(issues: SchemaIssue[]): string {
+  return issues.map((issue) => `${issue.path || "config"}: ${issue.message}`).join("\n");
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function keyPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+// ============================================
+// Primitives
+// ============================================
+
+export function string(options: { minLength?: number; pattern?: RegExp; description?: string } = {}): Schema<string> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== "string") {
+        issues.push({ path, message: `expected string, got ${describe(value)}` });
+      } else if (options.minLength !== undefined && value.length < options.minLength) {
+        issues.push({ path, message: `must be at least ${options.minLength} characters` });
+      } else if (options.pattern && !options.pattern.test(value)) {
+        issues.push({ path, message: `expected ${options.description ?? `a string matching ${options.pattern}`}, got "${value}"` });
+      }
+    },
+  };
+}
+
+export function number(options: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push({ path, message: `expected number, got ${describe(value)}` });
+      } else if (options.integer && !Number.isInteger(value)) {
+        issues.push({ path, message: `expected integer, got ${value}` });
+      } else if (options.min !== undefined && value < options.min) {
+        issues.push({ path, message: `must be >= ${options.min}, got ${value}` });
+      } else if (options.max !== undefined && value > options.max) {
+        issues.push({ path, message: `must be <= ${options.max}, got ${value}` });
+      }
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== "boolean") {
+        issues.push({ path, message: `expected boolean, got ${describe(value)}` });
+      }
+    },
+  };
+}
+
+export function literal<T extends string | number>(...values: T[]): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (!values.includes(value as T)) {
+        const expected = values.map((v) => JSON.stringify(v)).join(" | ");
+        issues.push({ path, message: `expected ${expected}, got ${JSON.stringify(value) ?? "undefined"}` });
+      }
+    },
+  };
+}
+
+// ISO 8601 datetime string that Date can parse, e.g. "2025-01-06T09:00:00"
+export function isoDateTime(): Schema<string> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== "string") {
+        issues.push({ path, message: `expected ISO datetime string, got ${describe(value)}` });
+      } else if (!/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(Date.parse(value))) {
+        issues.push({ path, message: `expected ISO datetime string, got "${value}"` });
+      }
+    },
+  };
+}
+
+// ============================================
+// Combinators
+// ============================================
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    optional: true,
+    check(value, path, issues) {
+      if (value !== undefined) schema.check(value, path, issues);
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, got ${describe(value)}` });
+        return;
+      }
+      value.forEach((element, i) => item.check(element, `${path}[${i}]`, issues));
+    },
+  };
+}
+
+// Every key of T needs a schema; unknown keys are allowed through
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, got ${describe(value)}` });
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const [key, schema] of Object.entries(shape) as [string, Schema<unknown>][]) {
+        if (record[key] === undefined && !schema.optional) {
+          issues.push({ path: keyPath(path, key), message: "is required" });
+          continue;
+        }
+        schema.check(record[key], keyPath(path, key), issues);
+      }
+    },
+  };
+}
+
+// Extra checks that need the whole (already type-checked) value
+export function refine<T>(
+  schema: Schema<T>,
+  rule: (value: T) => SchemaIssue | null
+): Schema<T> {
+  return {
+    optional: schema.optional,
+    check(value, path, issues) {
+      const before = issues.length;
+      schema.check(value, path, issues);
+      if (issues.length > before) return;
+      const issue = rule(value as T);
+      if (issue) {
+        issues.push({ path: issue.path ? keyPath(path, issue.path) : path, message: issue.message });
+      }
+    },
+  };
+}
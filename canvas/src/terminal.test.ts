@@ -0,0 +1,205 @@
+// Shell quoting and launcher tests: hostile ids, paths and arguments must reach
+// the canvas exactly as given, through sh, tmux's command strings and osascript
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { spawnSync } from "child_process";
+import { chmodSync, existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { autoTmuxScript, shellCommand, shellQuote, terminalAppScript, writeLauncher } from "./terminal";
+
+// Each would run `touch pwned` (or split the command) if it reached a shell unquoted
+const HOSTILE = [
+  "with space",
+  "it's",
+  'say "hi"',
+  "$(touch pwned)",
+  "`touch pwned`",
+  "a; touch pwned",
+  "line\nbreak",
+  "$HOME ${HOME}",
+  "back\\slash",
+  "glob *",
+  "-n",
+  "",
+];
+
+// Valid canvas ids: anything that makes a plain file name
+const HOSTILE_IDS = HOSTILE.filter((value) => value !== "");
+
+let root: string;
+let runDir: string;
+let workDir: string;
+let binDir: string;
+let dumpFile: string;
+let argvDump: string;
+const savedEnv = { XDG_RUNTIME_DIR: process.env.XDG_RUNTIME_DIR };
+
+// Run a sh command line with the fake binaries first on PATH
+function sh(command: string, input = ""): number | null {
+  const result = spawnSync("sh", ["-c", command], {
+    cwd: root,
+    input,
+    env: { ...process.env, PATH: `${binDir}:${process.env.PATH}`, DUMP: dumpFile, CALLS: join(root, "calls") },
+  });
+  return result.status;
+}
+
+// What argv-dump saw: its working directory, CANVAS_TOKEN and arguments
+function readDump(): { cwd: string; token: string; args: string[] } {
+  const [cwd = "", token = "", ...args] = readFileSync(dumpFile, "utf8").split("\0").slice(0, -1);
+  return { cwd, token, args };
+}
+
+// argv of each call to the fake tmux and wandb, in order
+function readCalls(): string[][] {
+  const dir = join(root, "calls");
+  return readdirSync(dir)
+    .sort((a, b) => Number(a) - Number(b))
+    .map((name) => readFileSync(join(dir, name), "utf8").split("\0").slice(0, -1));
+}
+
+// Undo the escaping of the AppleScript string literal after `do script`
+function appleScriptString(script: string): string {
+  const match = /do script "((?:[^"\\]|\\.)*)"/.exec(script);
+  if (!match) throw new Error(`No do script string in ${script}`);
+  return match[1]!.replace(/\\(.)/g, "$1");
+}
+
+function expectNothingInjected() {
+  expect(existsSync(join(root, "pwned"))).toBe(false);
+  expect(existsSync(join(workDir, "pwned"))).toBe(false);
+}
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), "canvas-terminal-test-"));
+  // The runtime dir, working dir and the program itself all live under hostile names
+  runDir = join(root, "run dir 'x' $(touch pwned) `touch pwned`; \"q\"\nnl");
+  workDir = join(root, "work dir 'x' $(touch pwned); \"q\"\\");
+  binDir = join(root, "bin");
+  dumpFile = join(root, "dump");
+  mkdirSync(workDir);
+  mkdirSync(binDir);
+  mkdirSync(join(root, "calls"));
+  process.env.XDG_RUNTIME_DIR = runDir;
+
+  argvDump = join(workDir, "argv-dump 'it's' $(x)");
+  writeFileSync(
+    argvDump,
+    '#!/bin/sh\n{ printf \'%s\\0\' "$PWD" "${CANVAS_TOKEN-}"; printf \'%s\\0\' "$@"; } > "$DUMP"\nexit 3\n'
+  );
+  chmodSync(argvDump, 0o755);
+
+  // Stand-ins that record their argv, one file per call
+  for (const name of ["tmux", "wandb"]) {
+    const fake = join(binDir, name);
+    writeFileSync(fake, `#!/bin/sh\nn=$(ls "$CALLS" | wc -l)\nprintf '%s\\0' ${name} "$@" > "$CALLS/$n"\n`);
+    chmodSync(fake, 0o755);
+  }
+});
+
+afterAll(() => {
+  if (savedEnv.XDG_RUNTIME_DIR === undefined) delete process.env.XDG_RUNTIME_DIR;
+  else process.env.XDG_RUNTIME_DIR = savedEnv.XDG_RUNTIME_DIR;
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("shellQuote", () => {
+  test("leaves plain words alone", () => {
+    expect(shellQuote("src/cli.ts")).toBe("src/cli.ts");
+    expect(shellQuote("--config-file")).toBe("--config-file");
+    expect(shellQuote("user@host:1,2%+")).toBe("user@host:1,2%+");
+  });
+
+  test("single-quotes everything else", () => {
+    expect(shellQuote("")).toBe("''");
+    expect(shellQuote("a b")).toBe("'a b'");
+    expect(shellQuote("$(x)")).toBe("'$(x)'");
+    expect(shellQuote("it's")).toBe("'it'\\''s'");
+  });
+
+  test.each(HOSTILE)("round-trips %j through sh", (value) => {
+    expect(sh(`printf '%s' ${shellQuote(value)} > "$DUMP"`)).toBe(0);
+    expect(readFileSync(dumpFile, "utf8")).toBe(value);
+    expectNothingInjected();
+  });
+});
+
+describe("shellCommand", () => {
+  test("runs argv exactly", () => {
+    expect(sh(shellCommand([argvDump, ...HOSTILE]))).toBe(3);
+    expect(readDump().args).toEqual(HOSTILE);
+    expectNothingInjected();
+  });
+});
+
+describe("writeLauncher", () => {
+  test.each(HOSTILE_IDS)("runs argv literally for id %j", async (id) => {
+    const token = `tok 'en' "$(touch pwned)" ${id}`;
+    const launcher = await writeLauncher(id, [argvDump, ...HOSTILE, id], { cwd: workDir, token });
+
+    expect(launcher).toEqual(["sh", join(runDir, "claude-canvas", `${id}.launch.sh`)]);
+    // Multiplexers get the launcher as one shell command line
+    expect(sh(shellCommand(launcher))).toBe(3);
+    expect(readDump()).toEqual({ cwd: workDir, token, args: [...HOSTILE, id] });
+    expectNothingInjected();
+  });
+
+  test("keeps the pane open and exits with the canvas's status", async () => {
+    const launcher = await writeLauncher("keep 'pane'", [argvDump, ...HOSTILE], { keepPane: true });
+    const result = spawnSync("sh", ["-c", shellCommand(launcher)], {
+      cwd: root,
+      input: "\n",
+      env: { ...process.env, DUMP: dumpFile },
+    });
+
+    expect(result.status).toBe(3);
+    expect(result.stdout.toString()).toContain("Canvas exited with status 3. Press Enter to close.");
+    expect(readDump().args).toEqual(HOSTILE);
+    expectNothingInjected();
+  });
+
+  test("keeps the token out of the script", async () => {
+    const token = "secret $(touch pwned)";
+    const [, script] = await writeLauncher("private", [argvDump], { token });
+    expect(readFileSync(script!, "utf8")).not.toContain(token);
+  });
+});
+
+describe("autoTmuxScript", () => {
+  test("hands tmux and the Leet command their arguments literally", async () => {
+    const id = "wandb 'run' $(touch pwned); `x`";
+    const launcher = await writeLauncher(id, [argvDump, ...HOSTILE], { cwd: workDir });
+    const leet = { runDir: join(workDir, "wandb run 'dir' $(touch pwned)"), leetArgs: HOSTILE };
+    const session = "canvas-wandb 'run' $(touch pwned); `x`";
+
+    expect(sh(autoTmuxScript(id, launcher, leet))).toBe(0);
+    const calls = readCalls();
+    expect(calls).toEqual([
+      ["tmux", "new-session", "-d", "-s", session, "-x", "200", "-y", "50", shellCommand(launcher)],
+      ["tmux", "split-window", "-d", "-h", "-t", `=${session}`, "-p", "60", expect.any(String)],
+      ["tmux", "attach-session", "-t", `=${session}`],
+    ]);
+    expectNothingInjected();
+
+    // tmux runs each pane's command with sh -c
+    expect(sh(calls[0]![9]!)).toBe(3);
+    expect(readDump()).toEqual({ cwd: workDir, token: "", args: HOSTILE });
+    expect(sh(calls[1]![8]!)).toBe(0);
+    expect(readCalls().at(-1)).toEqual(["wandb", "beta", "leet", leet.runDir, ...HOSTILE]);
+    expectNothingInjected();
+  });
+});
+
+describe("terminalAppScript", () => {
+  test.each(HOSTILE)("carries %j to Terminal unchanged", (value) => {
+    const command = shellCommand(["tmux", "attach-session", "-t", value]);
+    expect(appleScriptString(terminalAppScript(command))).toBe(command);
+  });
+
+  test("passes the whole tmux script through", async () => {
+    const launcher = await writeLauncher("apple", [argvDump, ...HOSTILE]);
+    const script = autoTmuxScript("apple", launcher, { runDir: "it's \"here\" \\ $(touch pwned)", leetArgs: HOSTILE });
+    expect(appleScriptString(terminalAppScript(script))).toBe(script);
+  });
+});
@@ -1,49 +1,62 @@
-import { spawn, spawnSync } from "child_process";
+import { spawnSync } from "child_process";
+import { chmodSync, closeSync, openSync } from "fs";
+import { dirname } from "path";
+import { getSocketPath, type IPCMode } from "./ipc/types";
+import {
+  getCanvasConfigPath,
+  getCanvasLauncherPath,
+  getCanvasTokenPath,
+  getRuntimePath,
+} from "./runtime/dirs";
+import { getCanvasInstance, listCanvasInstances, type RegisteredCanvas } from "./runtime/registry";
+import {
+  detectMultiplexer,
+  getMultiplexer,
+  type CaptureOptions,
+  type Multiplexer,
+  type MultiplexerName,
+  type PaneSize,
+  type PaneSplit,
+  type SplitDirection,
+} from "./multiplexer";
+
+export type { PaneSize, SplitDirection } from "./multiplexer";
+
+// ============================================
+// Shell Quoting
+// ============================================
+
+// Quote one argument for sh. Inside single quotes nothing is special, so the
+// only character to handle is the single quote itself.
+export function shellQuote(arg: string): string {
+  if (/^[\w@%+:,./-]+$/.test(arg)) return arg;
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+// A command line that runs argv exactly, whatever its arguments contain
+export function shellCommand(argv: string[]): string {
+  return argv.map(shellQuote).join(" ");
+}
 
 /**
  * Auto-start tmux session and spawn canvas inside it
  */
 async function autoStartTmux(kind: string, id: string, configJson?: string, options?: SpawnOptions): Promise<SpawnResult> {
-  const scriptDir = import.meta.dir.replace("/src", "");
-  const socketPath = options?.socketPath || `/tmp/canvas-${id}.sock`;
-
-  // Build the canvas command to run inside tmux
-  let canvasCmd = `cd "${scriptDir}" && bun run src/cli.ts show ${kind} --id ${id}`;
-  if (configJson) {
-    const configFile = `/tmp/canvas-config-${id}.json`;
-    await Bun.write(configFile, configJson);
-    canvasCmd += ` --config "$(cat ${configFile})"`;
-  }
-  canvasCmd += ` --socket ${socketPath}`;
-  if (options?.scenario) {
-    canvasCmd += ` --scenario ${options.scenario}`;
-  }
+  const scriptDir = dirname(import.meta.dir);
+  const launcher = await writeLauncher(id, ["bun", "run", "src/cli.ts", ...(await showArgs(kind, id, configJson, options))], {
+    cwd: scriptDir,
+    token: options?.token,
+    keepPane: options?.keepPane,
+  });
 
   // Create a new tmux session with the canvas, then split for leet if wandb
-  const sessionName = `canvas-${id}`;
-
   if (kind === "wandb" && configJson) {
     const config = JSON.parse(configJson);
-    const runDir = config.runDir;
-    const leetArgs = config.leetArgs?.join(" ") || "";
-    const leetCmd = `wandb beta leet ${runDir} ${leetArgs}`.trim();
-
-    // Create session with canvas on left, leet on right
-    const tmuxScript = `
-      tmux new-session -d -s ${sessionName} -x 200 -y 50 '${canvasCmd}' && \
-      tmux split-window -h -t ${sessionName} -p 60 '${leetCmd}' && \
-      tmux select-pane -t ${sessionName}:0.0 && \
-      tmux attach-session -t ${sessionName}
-    `.trim().replace(/\n\s*/g, " ");
+    const tmuxScript = autoTmuxScript(id, launcher, { runDir: config.runDir, leetArgs: config.leetArgs });
 
     // Open in a new Terminal window on macOS
     if (process.platform === "darwin") {
-      const script = `tell application "Terminal"
-        do script "${tmuxScript.replace(/"/g, '\\"')}"
-        activate
-      end tell`;
-
-      Bun.spawn(["osascript", "-e", script], {
+      Bun.spawn(["osascript", "-e", terminalAppScript(tmuxScript)], {
         stdio: ["ignore", "ignore", "ignore"],
       });
 
@@ -54,25 +67,245 @@ async function autoStartTmux(kind: string, id: string, configJson?: string, opti
   throw new Error("Auto-tmux only supported on macOS for wandb canvas");
 }
 
+// Shell commands that create a session with the canvas on the left and Leet on
+// the right, then attach to it; -d on the split keeps the canvas pane active
+export function autoTmuxScript(id: string, launcher: string[], leet: SpawnLeetOptions): string {
+  const sessionName = canvasSessionName(id);
+  return [
+    ["tmux", "new-session", "-d", "-s", sessionName, "-x", "200", "-y", "50", shellCommand(launcher)],
+    ["tmux", "split-window", "-d", "-h", "-t", `=${sessionName}`, "-p", "60", shellCommand(leetCommand(leet))],
+    ["tmux", "attach-session", "-t", `=${sessionName}`],
+  ]
+    .map(shellCommand)
+    .join(" && ");
+}
+
+// AppleScript that runs a shell command in a new Terminal window. Only
+// backslashes and double quotes are special inside an AppleScript string.
+export function terminalAppScript(command: string): string {
+  return `tell application "Terminal"
+        do script "${command.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"
+        activate
+      end tell`;
+}
+
+// tmux turns . and : in session names into _, so do it up front
+function canvasSessionName(id: string): string {
+  return `canvas-${id}`.replace(/[.:]/g, "_");
+}
+
+// Run a tmux command to completion, returning its output or null on failure
+function runTmux(args: string[]): string | null {
+  const result = spawnSync("tmux", args);
+  return result.status === 0 ? result.stdout.toString().trim() : null;
+}
+
+/**
+ * Outside tmux: start the canvas in a detached tmux session that the user
+ * attaches to when they want to see it. A canvas spawned again under the same
+ * id replaces itself in its session.
+ */
+async function startDetachedSession(kind: string, id: string, launcher: string[], configJson?: string): Promise<SpawnResult> {
+  const session = canvasSessionName(id);
+  const command = shellCommand(launcher);
+  let paneId: string | null;
+
+  if (runTmux(["has-session", "-t", `=${session}`]) !== null) {
+    paneId = runTmux(["display-message", "-p", "-t", `=${session}:`, "#{pane_id}"]);
+    if (paneId && runTmux(["respawn-pane", "-k", "-t", paneId, command]) === null) paneId = null;
+  } else {
+    paneId = runTmux(["new-session", "-d", "-s", session, "-x", "200", "-y", "50", "-P", "-F", "#{pane_id}", command]);
+    if (paneId && kind === "wandb" && configJson) {
+      const config = JSON.parse(configJson);
+      runTmux(["split-window", "-d", "-h", "-t", paneId, "-p", "60", shellCommand(leetCommand(config))]);
+    }
+  }
+
+  if (!paneId) throw new Error(`Failed to start tmux session '${session}'`);
+  return { method: "tmux-detached", paneId, session };
+}
+
+/**
+ * Run the canvas in the foreground of this terminal. Resolves once it has
+ * started; `exited` resolves with its exit code when the user closes it.
+ */
+function runInline(launcher: string[]): SpawnResult {
+  // stdin may have carried the config and stdout may be captured for the
+  // result; the canvas still needs the keyboard and screen
+  const stdin = process.stdin.isTTY ? "inherit" : openTerminal("r");
+  const stdout = process.stdout.isTTY ? "inherit" : openTerminal("w");
+  const proc = Bun.spawn(launcher, { stdio: [stdin, stdout, "inherit"] });
+  return { method: "inline", pid: proc.pid, exited: proc.exited };
+}
+
+function openTerminal(flags: "r" | "w"): number {
+  try {
+    return openSync("/dev/tty", flags);
+  } catch {
+    throw new Error("--inline needs a terminal to run in");
+  }
+}
+
+// Ways spawn can show a canvas, in the order it tries them:
+// - tmux, screen, zellij: a pane next to the caller's, inside that multiplexer
+// - tmux-auto: a new Terminal window running tmux (macOS, wandb only)
+// - tmux-detached: a background tmux session to attach to later
+// - inline: the foreground of the current terminal (spawn --inline)
+export type SpawnMode = MultiplexerName | "tmux-auto" | "tmux-detached" | "inline";
+
 export interface TerminalEnvironment {
   inTmux: boolean;
+  /** The multiplexer this process runs inside, whose panes canvases open in */
+  multiplexer?: MultiplexerName;
+  /** The tmux binary is installed */
+  hasTmux: boolean;
+  /** There is a terminal a canvas can take over */
+  isTTY: boolean;
+  /** Modes available here, in the order spawn tries them */
+  modes: SpawnMode[];
   summary: string;
 }
 
+function hasControllingTerminal(): boolean {
+  try {
+    closeSync(openSync("/dev/tty", "r"));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export function detectTerminal(): TerminalEnvironment {
   const inTmux = !!process.env.TMUX;
-  const summary = inTmux ? "tmux" : "no tmux";
-  return { inTmux, summary };
+  const multiplexer = detectMultiplexer()?.name;
+  const hasTmux = inTmux || Bun.which("tmux") !== null;
+  const isTTY = !!process.stdout.isTTY || hasControllingTerminal();
+
+  const modes: SpawnMode[] = [];
+  if (multiplexer) modes.push(multiplexer);
+  if (hasTmux && process.platform === "darwin") modes.push("tmux-auto");
+  if (hasTmux) modes.push("tmux-detached");
+  if (isTTY) modes.push("inline");
+
+  const summary = multiplexer ?? (hasTmux ? "no multiplexer session (tmux installed)" : "no multiplexer");
+  return { inTmux, multiplexer, hasTmux, isTTY, modes, summary };
 }
 
 export interface SpawnResult {
   method: string;
   pid?: number;
+  /** Multiplexer pane the canvas was started in */
+  paneId?: string;
+  /** Detached tmux session holding the canvas */
+  session?: string;
+  /** For inline canvases: resolves with the exit code once the canvas closes */
+  exited?: Promise<number>;
 }
 
 export interface SpawnOptions {
   socketPath?: string;
+  ipcMode?: IPCMode;
   scenario?: string;
+  /** Shared secret the canvas will require from controllers */
+  token?: string;
+  /** Absolute path of a config file for the canvas to read, instead of configJson */
+  configFile?: string;
+  /** The config file's format, when its extension doesn't say */
+  configFormat?: string;
+  /**
+   * Where the canvas goes: "new" splits off a new pane, "reuse" takes over the
+   * last canvas pane, and a canvas id takes over that canvas's pane. Left
+   * unset, the registry decides (see planPane).
+   */
+  pane?: string;
+  /** Direction of a new split */
+  split?: SplitDirection;
+  /** Size of a new pane, as a percentage of the pane it splits */
+  size?: number;
+  /** Pane to split (defaults to the current pane, or the pane being tiled) */
+  target?: string;
+  /** Run in the foreground of the current terminal instead of a pane */
+  inline?: boolean;
+  /** Leave the pane open after the canvas exits, showing its exit status */
+  keepPane?: boolean;
+}
+
+// The spawned canvas reads its config from a file, never from its command
+// line: the caller's own file, or configJson written to the runtime directory
+async function configFileFor(id: string, configJson?: string, options?: SpawnOptions): Promise<string | undefined> {
+  if (options?.configFile) return options.configFile;
+  if (!configJson) return undefined;
+  const configFile = getCanvasConfigPath(id);
+  await Bun.write(configFile, configJson);
+  return configFile;
+}
+
+// Arguments for the `show` command a spawned canvas runs
+async function showArgs(kind: string, id: string, configJson?: string, options?: SpawnOptions): Promise<string[]> {
+  const args = ["show", kind, "--id", id];
+  const configFile = await configFileFor(id, configJson, options);
+  if (configFile) {
+    args.push("--config-file", configFile);
+    // Only the caller's own file can be in another format; runtime copies are JSON
+    if (options?.configFile && options.configFormat) {
+      args.push("--format", options.configFormat);
+    }
+  }
+  args.push("--socket", options?.socketPath || getSocketPath(id));
+  if (options?.ipcMode) {
+    args.push("--ipc-mode", options.ipcMode);
+  }
+  if (options?.scenario) {
+    args.push("--scenario", options.scenario);
+  }
+  return args;
+}
+
+// Bun.write leaves an existing file's mode alone, so set it afterwards
+async function writePrivateFile(path: string, data: string): Promise<void> {
+  await Bun.write(path, data);
+  chmodSync(path, 0o600);
+}
+
+export interface LauncherOptions {
+  /** Directory to run in */
+  cwd?: string;
+  /** Shared secret, handed over in CANVAS_TOKEN */
+  token?: string;
+  /** Wait for Enter after argv exits instead of ending with it */
+  keepPane?: boolean;
+}
+
+// Write a script that runs argv, and return the argv that runs it. tmux and
+// Terminal only ever see the launcher's path, so nothing from the config, id
+// or paths is parsed by a shell. The token goes through a private file rather
+// than the command line, where other users could see it.
+export async function writeLauncher(id: string, argv: string[], options: LauncherOptions = {}): Promise<string[]> {
+  const lines = ["#!/bin/sh"];
+  if (options.token) {
+    const tokenFile = getCanvasTokenPath(id);
+    await writePrivateFile(tokenFile, options.token);
+    lines.push(`CANVAS_TOKEN="$(cat ${shellQuote(tokenFile)})"`, "export CANVAS_TOKEN");
+  }
+  if (options.cwd) {
+    lines.push(`cd ${shellQuote(options.cwd)} || exit 1`);
+  }
+  if (options.keepPane) {
+    lines.push(
+      shellCommand(argv),
+      "status=$?",
+      `printf '\\nCanvas exited with status %s. Press Enter to close.' "$status"`,
+      "read -r _",
+      'exit "$status"'
+    );
+  } else {
+    // exec makes the canvas the pane's own process, so the pane closes with it
+    lines.push(`exec ${shellCommand(argv)}`);
+  }
+
+  const launcher = getCanvasLauncherPath(id);
+  await writePrivateFile(launcher, lines.join("\n") + "\n");
+  return ["sh", launcher];
 }
 
 export async function spawnCanvas(
@@ -82,59 +315,54 @@ export async function spawnCanvas(
   options?: SpawnOptions
 ): Promise<SpawnResult> {
   const env = detectTerminal();
+  const mux = detectMultiplexer();
 
   // For wandb canvas without tmux, auto-start tmux with the full canvas experience
-  if (!env.inTmux && kind === "wandb" && configJson) {
+  if (!options?.inline && !mux && kind === "wandb" && configJson && process.platform === "darwin") {
     return autoStartTmux(kind, id, configJson, options);
   }
 
-  if (!env.inTmux) {
-    throw new Error("Canvas requires tmux. Please run inside a tmux session.");
+  if (!options?.inline && !mux && !env.hasTmux) {
+    throw new Error("Canvas requires tmux, screen or zellij. Run inside a session, install tmux, or use --inline.");
   }
 
   // Get the directory of this script (skill directory)
-  const scriptDir = import.meta.dir.replace("/src", "");
+  const scriptDir = dirname(import.meta.dir);
   const runScript = `${scriptDir}/run-canvas.sh`;
 
-  // Auto-generate socket path for IPC if not provided
-  const socketPath = options?.socketPath || `/tmp/canvas-${id}.sock`;
+  const launcher = await writeLauncher(id, [runScript, ...(await showArgs(kind, id, configJson, options))], {
+    token: options?.token,
+    // An inline canvas's terminal outlives it anyway
+    keepPane: options?.keepPane && !options.inline,
+  });
 
-  // Build the command to run
-  let command = `${runScript} show ${kind} --id ${id}`;
-  if (configJson) {
-    // Write config to a temp file to avoid shell escaping issues
-    const configFile = `/tmp/canvas-config-${id}.json`;
-    await Bun.write(configFile, configJson);
-    command += ` --config "$(cat ${configFile})"`;
+  if (options?.inline) {
+    return runInline(launcher);
   }
-  command += ` --socket ${socketPath}`;
-  if (options?.scenario) {
-    command += ` --scenario ${options.scenario}`;
+  if (!mux) {
+    return startDetachedSession(kind, id, launcher, configJson);
   }
 
-  const result = await spawnTmux(command);
-  if (result) return { method: "tmux" };
+  const paneId = await spawnPane(mux, shellCommand(launcher), id, options);
+  if (paneId) return { method: mux.name, paneId };
 
-  throw new Error("Failed to spawn tmux pane");
+  throw new Error(`Failed to spawn ${mux.name} pane`);
 }
 
-// File to track the canvas pane ID
-const CANVAS_PANE_FILE = "/tmp/claude-canvas-pane-id";
+// File to track the canvas pane ID, one per multiplexer
+const canvasPaneFile = (mux: Multiplexer) =>
+  getRuntimePath(mux.name === "tmux" ? "canvas-pane-id" : `canvas-pane-id.${mux.name}`);
 
-async function getCanvasPaneId(): Promise<string | null> {
+async function getCanvasPaneId(mux: Multiplexer): Promise<string | null> {
   try {
-    const file = Bun.file(CANVAS_PANE_FILE);
+    const file = Bun.file(canvasPaneFile(mux));
     if (await file.exists()) {
       const paneId = (await file.text()).trim();
-      // Verify the pane still exists by checking if tmux can find it
-      const result = spawnSync("tmux", ["display-message", "-t", paneId, "-p", "#{pane_id}"]);
-      const output = result.stdout?.toString().trim();
-      // Pane exists only if command succeeds AND returns the same pane ID
-      if (result.status === 0 && output === paneId) {
+      if (paneId && mux.paneExists(paneId)) {
         return paneId;
       }
       // Stale pane reference - clean up the file
-      await Bun.write(CANVAS_PANE_FILE, "");
+      await Bun.write(canvasPaneFile(mux), "");
     }
   } catch {
     // Ignore errors
@@ -142,86 +370,193 @@ async function getCanvasPaneId(): Promise<string | null> {
   return null;
 }
 
-async function saveCanvasPaneId(paneId: string): Promise<void> {
-  await Bun.write(CANVAS_PANE_FILE, paneId);
-}
-
-async function createNewPane(command: string): Promise<boolean> {
-  return new Promise((resolve) => {
-    // Use split-window -h for vertical split (side by side)
-    // -p 67 gives canvas 2/3 width (1:2 ratio, Claude:Canvas)
-    // -P -F prints the new pane ID so we can save it
-    const args = ["split-window", "-h", "-p", "67", "-P", "-F", "#{pane_id}", command];
-    const proc = spawn("tmux", args);
-    let paneId = "";
-    proc.stdout?.on("data", (data) => {
-      paneId += data.toString();
-    });
-    proc.on("close", async (code) => {
-      if (code === 0 && paneId.trim()) {
-        await saveCanvasPaneId(paneId.trim());
-      }
-      resolve(code === 0);
-    });
-    proc.on("error", () => resolve(false));
-  });
+async function saveCanvasPaneId(mux: Multiplexer, paneId: string): Promise<void> {
+  await Bun.write(canvasPaneFile(mux), paneId);
 }
 
-async function reuseExistingPane(paneId: string, command: string): Promise<boolean> {
-  return new Promise((resolve) => {
-    // Send Ctrl+C to interrupt any running process
-    const killProc = spawn("tmux", ["send-keys", "-t", paneId, "C-c"]);
-    killProc.on("close", () => {
-      // Wait for process to terminate before sending new command
-      setTimeout(() => {
-        // Clear the terminal and run the new command
-        const args = ["send-keys", "-t", paneId, `clear && ${command}`, "Enter"];
-        const proc = spawn("tmux", args);
-        proc.on("close", (code) => resolve(code === 0));
-        proc.on("error", () => resolve(false));
-      }, 150);
-    });
-    killProc.on("error", () => resolve(false));
-  });
+async function createNewPane(mux: Multiplexer, command: string, split: PaneSplit): Promise<string | null> {
+  const paneId = await mux.splitPane(command, split);
+  if (paneId) await saveCanvasPaneId(mux, paneId);
+  return paneId;
 }
 
-async function spawnTmux(command: string): Promise<boolean> {
-  // Check if we have an existing canvas pane to reuse
-  const existingPaneId = await getCanvasPaneId();
+type PanePlan = { reuse: string } | { split: PaneSplit };
 
-  if (existingPaneId) {
-    // Try to reuse existing pane
-    const reused = await reuseExistingPane(existingPaneId, command);
-    if (reused) {
-      return true;
+// Split off the current pane: canvas gets 2/3 width (1:2 ratio, Claude:Canvas)
+function firstCanvasSplit(options: SpawnOptions = {}): PaneSplit {
+  return { direction: options.split ?? "h", size: options.size ?? 67, target: options.target };
+}
+
+// A live registered canvas with a pane this multiplexer still has
+function hasLivePane(mux: Multiplexer, instance: RegisteredCanvas | null): instance is RegisteredCanvas & { paneId: string } {
+  return !!instance?.alive && !!instance.paneId && (instance.multiplexer ?? "tmux") === mux.name && mux.paneExists(instance.paneId);
+}
+
+// The pane a live registered canvas runs in
+function livePaneOf(mux: Multiplexer, id: string): string | null {
+  const instance = getCanvasInstance(id);
+  return hasLivePane(mux, instance) ? instance.paneId : null;
+}
+
+// Decide where a canvas goes. Without an explicit --pane:
+// 1. a canvas relaunched under the same id replaces itself
+// 2. next to other live canvases, the newest one's pane is split to tile them
+// 3. otherwise the last canvas pane is reused, or a new one split off
+async function planPane(mux: Multiplexer, id: string, options: SpawnOptions = {}): Promise<PanePlan> {
+  const firstSplit = firstCanvasSplit(options);
+  const { pane } = options;
+
+  if (pane === "new") {
+    return { split: firstSplit };
+  }
+
+  if (pane && pane !== "reuse") {
+    const paneId = livePaneOf(mux, pane);
+    if (!paneId) throw new Error(`No live canvas '${pane}' with a ${mux.name} pane to reuse`);
+    return { reuse: paneId };
+  }
+
+  const ownPane = livePaneOf(mux, id);
+  if (ownPane) return { reuse: ownPane };
+
+  if (!pane) {
+    const neighbours = listCanvasInstances()
+      .filter((instance) => hasLivePane(mux, instance))
+      .reverse();
+    const newest = neighbours[0];
+    if (newest) {
+      return {
+        split: {
+          direction: options.split ?? "v",
+          size: options.size ?? 50,
+          target: options.target ?? newest.paneId,
+        },
+      };
+    }
+  }
+
+  const lastPane = await getCanvasPaneId(mux);
+  return lastPane ? { reuse: lastPane } : { split: firstSplit };
+}
+
+// Returns the pane the command now runs in
+async function spawnPane(mux: Multiplexer, command: string, id: string, options?: SpawnOptions): Promise<string | null> {
+  const plan = await planPane(mux, id, options);
+
+  if ("reuse" in plan) {
+    const paneId = await mux.respawnPane(plan.reuse, command);
+    if (paneId) {
+      await saveCanvasPaneId(mux, paneId);
+      return paneId;
     }
     // Reuse failed (pane may have been closed) - clear stale reference and create new
-    await Bun.write(CANVAS_PANE_FILE, "");
+    await Bun.write(canvasPaneFile(mux), "");
+    return createNewPane(mux, command, firstCanvasSplit(options));
   }
 
-  // Create a new split pane
-  return createNewPane(command);
+  return createNewPane(mux, command, plan.split);
+}
+
+// ============================================
+// Pane Controls
+// ============================================
+
+// The multiplexer and pane a registered canvas was started in, if the pane
+// is still there (a canvas that has exited may have left it open)
+function canvasPane(id: string): { mux: Multiplexer; paneId: string } {
+  const instance = getCanvasInstance(id);
+  if (!instance?.paneId) {
+    throw new Error(`No canvas '${id}' with a recorded pane`);
+  }
+  const mux = getMultiplexer(instance.multiplexer ?? "tmux");
+  if (!mux.paneExists(instance.paneId)) {
+    throw new Error(`Canvas '${id}' pane ${instance.paneId} is gone`);
+  }
+  return { mux, paneId: instance.paneId };
+}
+
+// Whether the canvas's pane can be acted on (see canvasPane)
+export function hasCanvasPane(id: string): boolean {
+  try {
+    canvasPane(id);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function unsupported(mux: Multiplexer, what: string): Error {
+  return new Error(`${mux.name} can't ${what}`);
+}
+
+export async function focusCanvasPane(id: string): Promise<void> {
+  const { mux, paneId } = canvasPane(id);
+  if (!(await mux.focusPane(paneId))) {
+    throw new Error(`Failed to focus ${mux.name} pane ${paneId}`);
+  }
+}
+
+// Toggles: zooming a zoomed pane restores the layout
+export async function zoomCanvasPane(id: string): Promise<void> {
+  const { mux, paneId } = canvasPane(id);
+  if (!mux.zoomPane) throw unsupported(mux, "zoom panes");
+  if (!(await mux.zoomPane(paneId))) {
+    throw new Error(`Failed to zoom ${mux.name} pane ${paneId}`);
+  }
+}
+
+export async function resizeCanvasPane(id: string, size: PaneSize): Promise<void> {
+  const { mux, paneId } = canvasPane(id);
+  if (!mux.resizePane) throw unsupported(mux, "resize panes");
+  if (!(await mux.resizePane(paneId, size))) {
+    throw new Error(`Failed to resize ${mux.name} pane ${paneId}`);
+  }
+}
+
+// What the canvas's pane shows, with colours if escapes is set and the
+// multiplexer keeps them
+export async function captureCanvasPane(id: string, options: CaptureOptions = {}): Promise<string> {
+  const { mux, paneId } = canvasPane(id);
+  const captured = await mux.capturePane(paneId, options);
+  if (captured === null) {
+    throw new Error(`Failed to capture ${mux.name} pane ${paneId}`);
+  }
+  return captured;
+}
+
+// Swap where two canvases are shown
+export async function swapCanvasPanes(id: string, otherId: string): Promise<void> {
+  const { mux, paneId } = canvasPane(id);
+  const other = canvasPane(otherId);
+  if (other.mux !== mux) {
+    throw new Error(`Canvas '${id}' runs in ${mux.name} but '${otherId}' in ${other.mux.name}`);
+  }
+  if (!mux.swapPanes) throw unsupported(mux, "swap panes");
+  if (!(await mux.swapPanes(paneId, other.paneId))) {
+    throw new Error(`Failed to swap ${mux.name} panes ${paneId} and ${other.paneId}`);
+  }
 }
 
 // ============================================
 // Leet Pane Management (for W&B Canvas)
 // ============================================
 
-const LEET_PANE_FILE = "/tmp/claude-leet-pane-id";
+const leetPaneFile = (mux: Multiplexer) =>
+  getRuntimePath(mux.name === "tmux" ? "leet-pane-id" : `leet-pane-id.${mux.name}`);
 
 export async function getLeetPaneId(): Promise<string | null> {
+  const mux = detectMultiplexer();
+  if (!mux) return null;
   try {
-    const file = Bun.file(LEET_PANE_FILE);
+    const file = Bun.file(leetPaneFile(mux));
     if (await file.exists()) {
       const paneId = (await file.text()).trim();
       if (!paneId) return null;
       // Verify the pane still exists
-      const result = spawnSync("tmux", ["display-message", "-t", paneId, "-p", "#{pane_id}"]);
-      const output = result.stdout?.toString().trim();
-      if (result.status === 0 && output === paneId) {
+      if (mux.paneExists(paneId)) {
         return paneId;
       }
-      await Bun.write(LEET_PANE_FILE, "");
+      await Bun.write(leetPaneFile(mux), "");
     }
   } catch {
     // Ignore errors
@@ -229,8 +564,8 @@ export async function getLeetPaneId(): Promise<string | null> {
   return null;
 }
 
-async function saveLeetPaneId(paneId: string): Promise<void> {
-  await Bun.write(LEET_PANE_FILE, paneId);
+async function saveLeetPaneId(mux: Multiplexer, paneId: string): Promise<void> {
+  await Bun.write(leetPaneFile(mux), paneId);
 }
 
 export interface SpawnLeetOptions {
@@ -238,14 +573,18 @@ export interface SpawnLeetOptions {
   leetArgs?: string[];
 }
 
+function leetCommand(options: SpawnLeetOptions): string[] {
+  return ["wandb", "beta", "leet", options.runDir, ...(options.leetArgs ?? [])];
+}
+
 /**
- * Spawn wandb leet in a new tmux pane
+ * Spawn wandb leet in a new pane
  * Returns the pane ID if successful
  */
 export async function spawnLeetPane(options: SpawnLeetOptions): Promise<string | null> {
-  const env = detectTerminal();
-  if (!env.inTmux) {
-    throw new Error("Leet requires tmux. Please run inside a tmux session.");
+  const mux = detectMultiplexer();
+  if (!mux) {
+    throw new Error("Leet requires tmux, screen or zellij. Please run inside a session.");
   }
 
   // Check for existing Leet pane
@@ -255,51 +594,20 @@ export async function spawnLeetPane(options: SpawnLeetOptions): Promise<string |
     await killLeetPane();
   }
 
-  // Build the leet command
-  const leetArgs = options.leetArgs?.join(" ") || "";
-  const command = `wandb beta leet ${options.runDir} ${leetArgs}`.trim();
-
-  return new Promise((resolve) => {
-    // Split vertically, Leet gets right side (50%)
-    const args = ["split-window", "-h", "-p", "50", "-P", "-F", "#{pane_id}", command];
-    const proc = spawn("tmux", args);
-    let paneId = "";
-    proc.stdout?.on("data", (data) => {
-      paneId += data.toString();
-    });
-    proc.on("close", async (code) => {
-      if (code === 0 && paneId.trim()) {
-        await saveLeetPaneId(paneId.trim());
-        resolve(paneId.trim());
-      } else {
-        resolve(null);
-      }
-    });
-    proc.on("error", () => resolve(null));
-  });
+  // Split side by side, Leet gets right side (50%)
+  const paneId = await mux.splitPane(shellCommand(leetCommand(options)), { direction: "h", size: 50 });
+  if (paneId) await saveLeetPaneId(mux, paneId);
+  return paneId;
 }
 
 /**
  * Capture the current output of the Leet pane
- * Returns the terminal content with ANSI escape codes
+ * Returns the terminal content with ANSI escape codes (where the multiplexer keeps them)
  */
 export async function captureLeetPane(): Promise<string | null> {
   const paneId = await getLeetPaneId();
   if (!paneId) return null;
-
-  return new Promise((resolve) => {
-    // -p prints to stdout, -e includes escape sequences (colors)
-    const args = ["capture-pane", "-p", "-e", "-t", paneId];
-    const proc = spawn("tmux", args);
-    let output = "";
-    proc.stdout?.on("data", (data) => {
-      output += data.toString();
-    });
-    proc.on("close", (code) => {
-      resolve(code === 0 ? output : null);
-    });
-    proc.on("error", () => resolve(null));
-  });
+  return detectMultiplexer()!.capturePane(paneId, { escapes: true });
 }
 
 /**
@@ -308,13 +616,16 @@ export async function captureLeetPane(): Promise<string | null> {
 export async function sendKeysToLeet(keys: string): Promise<boolean> {
   const paneId = await getLeetPaneId();
   if (!paneId) return false;
+  return detectMultiplexer()!.sendKeys(paneId, keys);
+}
 
-  return new Promise((resolve) => {
-    const args = ["send-keys", "-t", paneId, keys];
-    const proc = spawn("tmux", args);
-    proc.on("close", (code) => resolve(code === 0));
-    proc.on("error", () => resolve(false));
-  });
+/**
+ * Give the Leet pane the keyboard focus
+ */
+export async function focusLeetPane(): Promise<boolean> {
+  const paneId = await getLeetPaneId();
+  if (!paneId) return false;
+  return detectMultiplexer()!.focusPane(paneId);
 }
 
 /**
@@ -324,18 +635,10 @@ export async function killLeetPane(): Promise<boolean> {
   const paneId = await getLeetPaneId();
   if (!paneId) return true;
 
-  return new Promise((resolve) => {
-    const args = ["kill-pane", "-t", paneId];
-    const proc = spawn("tmux", args);
-    proc.on("close", async (code) => {
-      await Bun.write(LEET_PANE_FILE, "");
-      resolve(code === 0);
-    });
-    proc.on("error", async () => {
-      await Bun.write(LEET_PANE_FILE, "");
-      resolve(false);
-    });
-  });
+  const mux = detectMultiplexer()!;
+  const killed = await mux.killPane(paneId);
+  await Bun.write(leetPaneFile(mux), "");
+  return killed;
 }
 
 /**
@@ -345,4 +648,3 @@ export async function isLeetPaneAlive(): Promise<boolean> {
   const paneId = await getLeetPaneId();
   return paneId !== null;
 }
-